@@ -8,27 +8,59 @@
 
 // --- CC message types (re-exported from shared) ---
 
-export type { ContentBlock } from '../../shared/types';
+export type {
+  CompactInfo,
+  ContentBlock,
+  FileChange,
+  LeafInfo,
+  LimitBreach,
+  PathEntry,
+  PermissionDecision,
+  PermissionRequestInfo,
+  ProjectInfo,
+  RewindPlan,
+  RunInfo,
+  RunLimits,
+  SearchResult,
+  SessionEvent,
+  SessionUsage,
+  SubagentInfo,
+  TrashedSession,
+  TurnFiles,
+} from '../../shared/types';
 
-import type { ContentBlock } from '../../shared/types';
+import type { CompactInfo, ContentBlock, SubagentInfo } from '../../shared/types';
 
 export interface Message {
   uuid?: string;
   role: 'user' | 'assistant';
   content: string | ContentBlock[];
+  cost_usd?: number; // on the last assistant message of a turn
+  compact?: CompactInfo; // the compaction summary; history before it was compacted
+  subagents?: SubagentInfo[]; // runs spawned by this message's tool calls
 }
 
 // --- UI state types ---
 
+export interface StreamingToolCall {
+  id: string;
+  name: string;
+  partialInput: string; // accumulated input_json_delta fragments
+  done: boolean;
+}
+
 export interface PendingTool {
   name: string;
   args: Record<string, unknown>;
   text: string;
   blocks: ContentBlock[];
+  toolCalls: StreamingToolCall[];
   streaming: boolean;
+  costUsd?: number; // set when the run reports its cost
+  subagents?: Record<string, ContentBlock[]>; // running subagents' blocks, by spawning tool_use id
 }
 
-export type Status = 'idle' | 'connecting' | 'connected';
+export type Status = 'idle' | 'connecting' | 'connected' | 'reconnecting'; // reconnecting: Live dropped mid-session
 
 export interface PendingApproval {
   instruction: string;
@@ -3,7 +3,7 @@
  * No framework dependency — works in any route.
  */
 
-import type { ContentBlock, Message } from './chat-types';
+import type { ContentBlock, Message, StreamingToolCall } from './chat-types';
 
 export function messageText(msg: Message): string {
   if (typeof msg.content === 'string') return msg.content;
@@ -54,3 +54,48 @@ export function isToolResultOnly(msg: Message): boolean {
   if (msg.role !== 'user' || typeof msg.content === 'string') return false;
   return msg.content.every((b) => b.type === 'tool_result');
 }
+
+/** Tools whose calls run a subagent with its own transcript (SUBAGENT_TOOLS on the server). */
+export function isSubagentTool(name: string): boolean {
+  return name === 'Task' || name === 'Agent';
+}
+
+// --- Streaming tool calls ---
+
+const TOOL_VERBS: Record<string, string> = {
+  Read: 'Reading',
+  Write: 'Writing',
+  Edit: 'Editing',
+  Glob: 'Searching',
+  Grep: 'Searching',
+  Bash: 'Running',
+  WebSearch: 'Searching the web for',
+  WebFetch: 'Fetching',
+  Task: 'Delegating',
+  Agent: 'Delegating',
+};
+
+const ARG_KEYS = ['file_path', 'path', 'pattern', 'command', 'query', 'url', 'description'];
+
+/** Best-effort argument from a possibly truncated JSON fragment, e.g. `{"file_path": "src/fo`. */
+function partialArg(partialJson: string): string {
+  for (const key of ARG_KEYS) {
+    const match = partialJson.match(new RegExp(`"${key}"\\s*:\\s*"((?:[^"\\\\]|\\\\.)*)`));
+    if (match) return match[1].replace(/\\(.)/g, '$1');
+  }
+  return '';
+}
+
+/** Human label for a complete tool call: "Running git status". */
+export function toolUseLabel(name: string, input: Record<string, unknown>): string {
+  const verb = TOOL_VERBS[name] ?? name;
+  const key = ARG_KEYS.find((k) => typeof input[k] === 'string');
+  return key ? `${verb} ${input[key]}` : verb;
+}
+
+/** Human label for an in-flight tool call: "Reading src/foo.ts". */
+export function toolCallLabel(call: StreamingToolCall): string {
+  const verb = TOOL_VERBS[call.name] ?? call.name;
+  const arg = partialArg(call.partialInput);
+  return arg ? `${verb} ${arg}` : verb;
+}
@@ -1,5 +1,5 @@
 /**
- * Browser audio I/O for Gemini Live API.
+ * Browser audio I/O for the voice providers.
  * Mic: 16-bit PCM, 16kHz, mono → base64 chunks.
  * Player: base64 PCM chunks at 24kHz → speakers (gapless scheduling).
  */
@@ -160,9 +160,28 @@ export function playPcmChunks(
   };
 }
 
+// --- Resampling ---
+
+/** Linear-interpolated rate change for base64 PCM16 mono chunks. */
+export function resamplePcm16(base64: string, fromRate: number, toRate: number): string {
+  if (fromRate === toRate) return base64;
+  const bytes = base64ToUint8(base64);
+  const input = new Int16Array(bytes.buffer, bytes.byteOffset, bytes.byteLength / 2);
+  const output = new Int16Array(Math.round((input.length * toRate) / fromRate));
+  const step = fromRate / toRate;
+  for (let i = 0; i < output.length; i++) {
+    const pos = i * step;
+    const j = Math.floor(pos);
+    const a = input[j] ?? 0;
+    const b = input[j + 1] ?? a;
+    output[i] = Math.round(a + (b - a) * (pos - j));
+  }
+  return uint8ToBase64(new Uint8Array(output.buffer));
+}
+
 // --- Base64 helpers ---
 
-function uint8ToBase64(bytes: Uint8Array): string {
+export function uint8ToBase64(bytes: Uint8Array): string {
   let bin = '';
   for (let i = 0; i < bytes.length; i++) {
     bin += String.fromCharCode(bytes[i]);
@@ -0,0 +1,21 @@
+/**
+ * Reconnect schedule shared by the Live and TTS sockets.
+ * The first retry is immediate (a goAway handover or a one-off drop); after
+ * that the wait doubles up to a cap, so a phone walking through a dead spot
+ * keeps trying for about half a minute before the session gives up.
+ */
+
+/** Attempts in a row without hearing from the server before giving up. */
+export const MAX_RECONNECTS = 7;
+
+const BASE_DELAY_MS = 500;
+const MAX_DELAY_MS = 8000;
+
+/** Wait before attempt `n` (0-based) of a reconnect run. */
+export function backoffDelay(n: number): number {
+  return n === 0 ? 0 : Math.min(MAX_DELAY_MS, BASE_DELAY_MS * 2 ** (n - 1));
+}
+
+export function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
@@ -0,0 +1,72 @@
+/**
+ * Branch tree for the navigator.
+ * Pure data: merges each leaf's root→leaf message path into one tree and
+ * collapses straight runs, so only branch points and leaves remain.
+ */
+
+import type { LeafInfo, PathEntry } from './types';
+
+export interface BranchNode {
+  uuid: string;
+  preview: string;
+  /** Messages from the root to this node, inclusive. */
+  depth: number;
+  /** Set when a branch ends here. */
+  leaf: LeafInfo | null;
+  children: BranchNode[];
+}
+
+/** `path` is leaf → root, as GET /api/sessions/:id/path returns it. */
+export interface LeafPath {
+  leaf: LeafInfo;
+  path: PathEntry[];
+}
+
+/** Strip the `type uuid` prefix from a server preview line. */
+export function previewText(preview: string): string {
+  return preview.replace(/^\S+\s+\S+\s+/, '');
+}
+
+export function buildBranchTree(leafPaths: LeafPath[]): BranchNode | null {
+  const entries = new Map<string, { preview: string; depth: number; children: string[] }>();
+  const leafAt = new Map<string, LeafInfo>();
+  const roots: string[] = [];
+
+  for (const { leaf, path } of leafPaths) {
+    if (path.length === 0) continue;
+    const rootToLeaf = [...path].reverse();
+    let parent: string | null = null;
+    rootToLeaf.forEach((e, i) => {
+      if (!entries.has(e.uuid)) {
+        entries.set(e.uuid, { preview: e.preview, depth: i + 1, children: [] });
+        if (parent) entries.get(parent)!.children.push(e.uuid);
+        else roots.push(e.uuid);
+      }
+      parent = e.uuid;
+    });
+    // A leaf that isn't a message (e.g. a system entry) lands on its nearest message
+    leafAt.set(path[0]!.uuid, leaf);
+  }
+
+  function collapse(uuid: string): BranchNode {
+    let cur = uuid;
+    for (;;) {
+      const kids = entries.get(cur)!.children;
+      if (kids.length !== 1 || leafAt.has(cur)) break;
+      cur = kids[0]!;
+    }
+    const e = entries.get(cur)!;
+    return {
+      uuid: cur,
+      preview: e.preview,
+      depth: e.depth,
+      leaf: leafAt.get(cur) ?? null,
+      children: e.children.map(collapse),
+    };
+  }
+
+  if (roots.length === 0) return null;
+  if (roots.length === 1) return collapse(roots[0]!);
+  // Disjoint roots (e.g. a transcript stitched from several files) hang off a virtual root
+  return { uuid: '', preview: '', depth: 0, leaf: null, children: roots.map(collapse) };
+}
@@ -0,0 +1,148 @@
+/**
+ * Browser-native voice provider — SpeechRecognition in, speechSynthesis out.
+ * Plain .ts — no runes, no reactive state.
+ *
+ * The fallback for when no voice API key is set or its quota is spent:
+ * nothing to connect to and nothing billed, at the cost of the browser's
+ * recognition and voices. There's no model deciding what was meant, so
+ * every finished utterance is a `converse` call. Routing, approval and
+ * aborts are relay.ts, same as the other providers.
+ *
+ * ## Taking turns
+ *
+ * Browsers run one SpeechRecognition at a time, and an open mic would
+ * hear the speech output. So the listener pauses once an utterance is sent
+ * — the relay's own listeners (stop, approval, permission) take over — and
+ * resumes after the run has settled and speechSynthesis has gone quiet.
+ * A stop word during a run is therefore the relay's to hear; one heard
+ * here has nothing to stop and is dropped rather than sent to Claude.
+ */
+
+import { createRelay } from './relay';
+import { openSpeechTTS } from './speech-tts';
+import { STOP_WORDS } from './voice-approval';
+import type { ConnectDeps, LiveBackend } from './types';
+
+// --- Log styles ---
+const PURPLE_BADGE = 'background:#7c3aed;color:white;font-weight:bold;padding:1px 6px;border-radius:3px';
+const DIM = 'color:#9ca3af';
+
+const LANG = 'en-US';
+
+/**
+ * Start listening and return a LiveBackend handle.
+ * Returns null if the browser has no SpeechRecognition (error is pushed to data store).
+ */
+export async function connectBrowser(deps: ConnectDeps): Promise<LiveBackend | null> {
+  const { data, converseApi } = deps;
+  if (typeof webkitSpeechRecognition === 'undefined') {
+    data.pushError('Speech recognition is not available in this browser');
+    return null;
+  }
+
+  let closed = false;
+  let listening = false;
+  let awaitingRun = false; // an utterance went to the relay and its run hasn't settled
+  const t0 = Date.now();
+  const ts = () => {
+    const elapsed = (Date.now() - t0) / 1000;
+    const mins = Math.floor(elapsed / 60);
+    const secs = elapsed % 60;
+    return `${String(mins).padStart(2, '0')}:${secs.toFixed(2).padStart(5, '0')}`;
+  };
+  const log = (text: string, ...args: unknown[]) => console.log(`%c BROWSER %c ${ts()} ${text}`, PURPLE_BADGE, DIM, ...args);
+
+  const tts = openSpeechTTS(deps.getOutputMuted, undefined, () => resume());
+  const relay = createRelay({
+    ...deps,
+    tts,
+    respond: () => {}, // no model waiting on the result
+    log,
+    onSettled: () => {
+      awaitingRun = false;
+      resume();
+    },
+  });
+
+  const recognition = new webkitSpeechRecognition();
+  recognition.continuous = true;
+  recognition.interimResults = false;
+  recognition.lang = LANG;
+
+  recognition.onresult = (event) => {
+    const result = event.results[event.results.length - 1];
+    if (!result?.isFinal || !listening) return;
+    const transcript = result[0].transcript.trim();
+    if (!transcript) return;
+    log(`[user] ${transcript}`);
+    data.appendInput(transcript);
+
+    const words = transcript.toLowerCase().replace(/[^\p{L}\s]/gu, '').split(/\s+/);
+    if (words.length === 1 && (STOP_WORDS as readonly string[]).includes(words[0]!)) {
+      log('stop word with nothing running — ignored');
+      return;
+    }
+    awaitingRun = true;
+    pause();
+    void relay.handleToolCalls([{ name: 'converse', args: { instruction: transcript } }]);
+  };
+
+  recognition.onerror = (event) => {
+    if (event.error === 'not-allowed') {
+      teardown('Microphone permission denied');
+      return;
+    }
+    // 'no-speech' and 'aborted' are expected during normal operation
+    if (event.error !== 'no-speech' && event.error !== 'aborted') {
+      log(`recognition error: ${event.error}`);
+    }
+  };
+
+  recognition.onend = () => {
+    // Chrome ends continuous recognition after a while — restart unless paused
+    if (listening && !closed) {
+      try { recognition.start(); } catch { /* already started */ }
+    }
+  };
+
+  function pause() {
+    if (!listening) return;
+    listening = false;
+    try { recognition.stop(); } catch { /* already stopped */ }
+    log('paused');
+  }
+
+  function resume() {
+    if (closed || listening || awaitingRun || tts.speaking) return;
+    listening = true;
+    relay.close(); // a finished run's stop listener would hold the recognizer
+    try {
+      recognition.start();
+      log('listening');
+    } catch { /* already started */ }
+  }
+
+  /** Final teardown — after stop(), or when the mic was refused. */
+  function teardown(error?: string) {
+    if (closed) return;
+    closed = true;
+    listening = false;
+    try { recognition.stop(); } catch { /* already stopped */ }
+    relay.close();
+    tts.close();
+    data.setStatus('idle');
+    if (error) data.pushError(error);
+  }
+
+  resume();
+  if (closed) return null;
+  data.setStatus('connected');
+  converseApi.sessionStart = t0;
+
+  return {
+    sendRealtimeInput: () => {}, // SpeechRecognition opens its own mic
+    sendClientContent: () => {},
+    sendToolResponse: () => {},
+    close: () => teardown(),
+  };
+}
@@ -1,18 +1,29 @@
 /**
  * SSE stream consumer for the Claude Code /api/converse endpoint.
  * Pure async I/O — no reactive state, no Gemini dependency.
+ *
+ * Runs are detached on the server: if the stream drops before `done`,
+ * we re-attach to GET /api/converse/:runId with Last-Event-ID and the
+ * server replays whatever we missed.
  */
 
-import type { ConverseApi } from './types';
+import { isSubagentTool } from '../../lib/message-helpers';
+import type { ConverseApi, RunLimits, StreamCallbacks } from './types';
 
 const ORANGE_BADGE = 'background:#d97706;color:white;font-weight:bold;padding:1px 6px;border-radius:3px';
 const ORANGE_TEXT = 'color:#fb923c';
 const DIM = 'color:#9ca3af';
 
+/** Re-attach attempts after a dropped stream (linear backoff). */
+const MAX_REATTACH = 5;
+const REATTACH_DELAY_MS = 1000;
+
 interface ConverseConfig {
   model: string;
   systemPrompt: string;
   permissionMode: string;
+  project: string | null;
+  limits: RunLimits;
 }
 
 function fmtTs(t0: number): string {
@@ -29,39 +40,107 @@ export function createConverseApi(
   let sessionId: string | null = null;
   let sessionStart: number = Date.now();
   let leafUuid: string | null = null;
+  let rewindCode = false;
+  let runId: string | null = null;
   let controller: AbortController | null = null;
 
-  return {
-    get sessionId() { return sessionId; },
-    set sessionId(id: string | null) { sessionId = id; },
-    get sessionStart() { return sessionStart; },
-    set sessionStart(t: number) { sessionStart = t; },
-    get leafUuid() { return leafUuid; },
-    set leafUuid(id: string | null) { leafUuid = id; },
+  /**
+   * Consume one run: the first response comes from `open`, later ones from
+   * re-attaching after a drop. Resolves once `done` is seen or we give up.
+   */
+  async function follow(
+    open: (signal: AbortSignal) => Promise<Response>,
+    {
+      onChunk, onBlock, onToolStart, onToolInput, onToolEnd,
+      onPermissionRequest, onPermissionResolved, onSubagentBlock, onSubagentDone,
+      onLimit, onDone, onError,
+    }: StreamCallbacks,
+  ): Promise<void> {
+    const callT0 = performance.now();
+    const ts = () => fmtTs(sessionStart);
+    const ctrl = new AbortController();
+    controller = ctrl;
+    let lastEventId = 0;
+    let finished = false;
+    let nChunks = 0;
+    let ttft = 0;
+    const subagents = new Map<string, string>(); // spawning tool_use id → description
 
-    abort() { controller?.abort(); controller = null; },
+    function handle(data: Record<string, any>) {
+      if (data.run_id) {
+        runId = data.run_id;
+      }
+      if (data.session_id && !data.done) {
+        sessionId = data.session_id;
+      }
+      if (data.permission_request) {
+        console.log(
+          `%c CLAUDE %c ${ts()} permission requested: ${data.permission_request.tool_name}`,
+          ORANGE_BADGE, DIM,
+        );
+        onPermissionRequest?.(data.permission_request);
+      }
+      if (data.permission_resolved) {
+        onPermissionResolved?.(data.permission_resolved.id);
+      }
+      if (data.text) {
+        nChunks++;
+        if (nChunks === 1) {
+          ttft = Math.round(performance.now() - callT0);
+          console.log(`%c CLAUDE %c ${ts()} TTFT: ${ttft}ms`, ORANGE_BADGE, DIM);
+        }
+        console.log(`%c${data.text}`, ORANGE_TEXT);
+        onChunk(data.text);
+      }
+      if (data.tool_start) {
+        console.log(`%c CLAUDE %c ${ts()} tool: ${data.tool_start.name}`, ORANGE_BADGE, DIM);
+        onToolStart?.(data.tool_start.id, data.tool_start.name);
+      }
+      if (data.tool_input) {
+        onToolInput?.(data.tool_input.id, data.tool_input.partial_json);
+      }
+      if (data.tool_end) {
+        onToolEnd?.(data.tool_end.id);
+      }
+      if (data.block && data.parent_tool_use_id) {
+        onSubagentBlock?.(data.parent_tool_use_id, data.block);
+      } else if (data.block) {
+        const block = data.block;
+        if (block.type === 'tool_use' && isSubagentTool(block.name)) {
+          subagents.set(block.id, typeof block.input?.description === 'string' ? block.input.description : '');
+        }
+        onBlock?.(block);
+        if (block.type === 'tool_result' && subagents.has(block.tool_use_id)) {
+          console.log(`%c CLAUDE %c ${ts()} subagent finished: ${subagents.get(block.tool_use_id)}`, ORANGE_BADGE, DIM);
+          onSubagentDone?.(block.tool_use_id, subagents.get(block.tool_use_id)!);
+          subagents.delete(block.tool_use_id);
+        }
+      }
+      if (data.done) {
+        finished = true;
+        if (data.session_id) sessionId = data.session_id;
+        leafUuid = null;
+        rewindCode = false;
+        console.log(
+          `%c CLAUDE %c ${ts()} ${data.cancelled ? 'cancelled' : 'done'}: ${nChunks} chunks, cost=$${data.cost_usd}`,
+          ORANGE_BADGE, DIM,
+        );
+        if (data.limit) {
+          console.log(`%c CLAUDE %c ${ts()} limit: ${data.limit.kind} (${data.limit.limit})`, ORANGE_BADGE, DIM);
+          onLimit?.(data.limit);
+          onDone?.(data.cost_usd ?? null, data.duration_ms ?? 0);
+        } else if (data.error) {
+          onError(`Claude Code error: ${data.error}`);
+        } else {
+          onDone?.(data.cost_usd, data.duration_ms);
+        }
+      }
+    }
 
-    async stream(instruction, { onChunk, onBlock, onDone, onError }) {
-      const callT0 = performance.now();
-      const ts = () => fmtTs(sessionStart);
-      console.log(`%c CLAUDE %c ${ts()} starting: ${instruction.slice(0, 80)}`, ORANGE_BADGE, DIM);
-      controller = new AbortController();
-      try {
-        const res = await fetch(endpoint, {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({
-            instruction,
-            session_id: sessionId,
-            leaf_uuid: leafUuid,
-            ...getConfig && {
-              model: getConfig().model,
-              system_prompt: getConfig().systemPrompt,
-              permission_mode: getConfig().permissionMode,
-            },
-          }),
-          signal: controller.signal,
-        });
+    try {
+      let res = await open(ctrl.signal);
+      let attempt = 0;
+      for (;;) {
         if (!res.ok || !res.body) {
           console.error(`%c CLAUDE %c ${ts()} fetch failed: ${res.status}`, ORANGE_BADGE, DIM);
           onError(`Claude Code request failed (${res.status}).`);
@@ -70,56 +149,123 @@ export function createConverseApi(
         const reader = res.body.getReader();
         const decoder = new TextDecoder();
         let buf = '';
-        let nChunks = 0;
-        let fullText = '';
-        let ttft = 0;
-
-        for (;;) {
-          const { done, value } = await reader.read();
-          if (done) break;
-          buf += decoder.decode(value, { stream: true });
-
-          const parts = buf.split('\n\n');
-          buf = parts.pop()!;
-
-          for (const part of parts) {
-            const line = part.trim();
-            if (!line.startsWith('data: ')) continue;
-            const data = JSON.parse(line.slice(6));
-            if (data.text) {
-              nChunks++;
-              fullText += data.text;
-              if (nChunks === 1) {
-                ttft = Math.round(performance.now() - callT0);
-                console.log(`%c CLAUDE %c ${ts()} TTFT: ${ttft}ms`, ORANGE_BADGE, DIM);
-              }
-              console.log(`%c${data.text}`, ORANGE_TEXT);
-              onChunk(data.text);
-            }
-            if (data.block) {
-              onBlock?.(data.block);
-            }
-            if (data.done) {
-              if (data.session_id) sessionId = data.session_id;
-              leafUuid = null;
-              console.log(
-                `%c CLAUDE %c ${ts()} done: ${nChunks} chunks, cost=$${data.cost_usd}`,
-                ORANGE_BADGE, DIM,
-              );
-              if (data.error) {
-                onError(`Claude Code error: ${data.error}`);
-              } else {
-                onDone?.(data.cost_usd, data.duration_ms);
+
+        try {
+          for (;;) {
+            const { done, value } = await reader.read();
+            if (done) break;
+            buf += decoder.decode(value, { stream: true });
+
+            const parts = buf.split('\n\n');
+            buf = parts.pop()!;
+
+            for (const part of parts) {
+              let data: Record<string, any> | null = null;
+              for (const line of part.trim().split('\n')) {
+                if (line.startsWith('id: ')) lastEventId = parseInt(line.slice(4), 10) || lastEventId;
+                else if (line.startsWith('data: ')) data = JSON.parse(line.slice(6));
               }
+              if (!data) continue;
+              attempt = 0;
+              handle(data);
             }
           }
+        } catch (e) {
+          if (ctrl.signal.aborted) throw e;
+          console.warn(`%c CLAUDE %c ${ts()} stream dropped`, ORANGE_BADGE, DIM, e);
         }
-      } catch (e) {
-        console.error(`%c CLAUDE %c ${ts()} error`, ORANGE_BADGE, DIM, e);
-        onError('Claude Code request failed.');
-      } finally {
+
+        if (finished) return;
+        if (!runId || ++attempt > MAX_REATTACH) {
+          onError('Claude Code stream lost.');
+          return;
+        }
+        await new Promise((r) => setTimeout(r, REATTACH_DELAY_MS * attempt));
+        if (ctrl.signal.aborted) return;
+        console.log(
+          `%c CLAUDE %c ${ts()} re-attaching run ${runId.slice(0, 8)} after event ${lastEventId} (attempt ${attempt})`,
+          ORANGE_BADGE, DIM,
+        );
+        res = await fetch(`${endpoint}/${runId}`, {
+          headers: { 'Last-Event-ID': String(lastEventId) },
+          signal: ctrl.signal,
+        });
+      }
+    } catch (e) {
+      console.error(`%c CLAUDE %c ${ts()} error`, ORANGE_BADGE, DIM, e);
+      onError('Claude Code request failed.');
+    } finally {
+      if (controller === ctrl) {
         controller = null;
+        runId = null;
+      }
+    }
+  }
+
+  return {
+    get sessionId() { return sessionId; },
+    set sessionId(id: string | null) { sessionId = id; },
+    get sessionStart() { return sessionStart; },
+    set sessionStart(t: number) { sessionStart = t; },
+    get leafUuid() { return leafUuid; },
+    set leafUuid(id: string | null) { leafUuid = id; },
+    get rewindCode() { return rewindCode; },
+    set rewindCode(v: boolean) { rewindCode = v; },
+    get runId() { return runId; },
+
+    /** Stop reading and cancel the agent server-side — a detached run would keep spending otherwise. */
+    abort() {
+      if (runId) {
+        const url = `${endpoint}/${runId}/cancel`;
+        console.log(`%c CLAUDE %c cancelling run ${runId.slice(0, 8)}`, ORANGE_BADGE, DIM);
+        fetch(url, { method: 'POST' }).catch((e) => console.warn(`%c CLAUDE %c cancel failed`, ORANGE_BADGE, DIM, e));
       }
+      controller?.abort();
+      controller = null;
+      runId = null;
+    },
+
+    async respondPermission(requestId, decision) {
+      if (!runId) return;
+      console.log(`%c CLAUDE %c permission ${requestId.slice(0, 8)}: ${decision}`, ORANGE_BADGE, DIM);
+      try {
+        const res = await fetch(`${endpoint}/${runId}/permission`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ request_id: requestId, decision }),
+        });
+        if (!res.ok) console.warn(`%c CLAUDE %c permission answer rejected: ${res.status}`, ORANGE_BADGE, DIM);
+      } catch (e) {
+        console.error(`%c CLAUDE %c permission answer failed`, ORANGE_BADGE, DIM, e);
+      }
+    },
+
+    async stream(instruction, callbacks) {
+      console.log(`%c CLAUDE %c ${fmtTs(sessionStart)} starting: ${instruction.slice(0, 80)}`, ORANGE_BADGE, DIM);
+      await follow((signal) => fetch(endpoint, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          instruction,
+          session_id: sessionId,
+          leaf_uuid: leafUuid,
+          ...(leafUuid && rewindCode && { rewind_code: true }),
+          ...getConfig && {
+            model: getConfig().model,
+            system_prompt: getConfig().systemPrompt,
+            permission_mode: getConfig().permissionMode,
+            project: getConfig().project ?? undefined,
+            limits: getConfig().limits,
+          },
+        }),
+        signal,
+      }), callbacks);
+    },
+
+    async resume(id, callbacks) {
+      console.log(`%c CLAUDE %c ${fmtTs(sessionStart)} attaching to run ${id.slice(0, 8)}`, ORANGE_BADGE, DIM);
+      runId = id;
+      await follow((signal) => fetch(`${endpoint}/${id}`, { signal }), callbacks);
     },
   };
 }
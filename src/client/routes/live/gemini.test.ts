@@ -0,0 +1,164 @@
+import assert from 'node:assert/strict';
+import { afterEach, beforeEach, mock, test } from 'node:test';
+import { connectGemini } from './gemini';
+import { createFakeConverse, createFakeData, createFakeLive, settle, stubAudio, type FakeSession } from './test-live';
+import type { InteractionMode, LiveBackend } from './types';
+
+const REPLY = 'Added the test and the whole suite passes now.';
+const AUDIO = { audio: { data: 'AAAA', mimeType: 'audio/pcm;rate=16000' } };
+
+let backend: LiveBackend | null = null;
+
+beforeEach(() => {
+  stubAudio();
+  mock.timers.enable({ apis: ['setTimeout'] });
+  for (const method of ['log', 'warn', 'error', 'debug'] as const) mock.method(console, method, () => {});
+});
+
+afterEach(() => {
+  backend?.close();
+  backend = null;
+  mock.timers.reset();
+  mock.restoreAll();
+});
+
+async function advance(ms: number) {
+  await settle();
+  mock.timers.tick(ms);
+  await settle();
+}
+
+async function connect(mode: InteractionMode) {
+  const live = createFakeLive();
+  const data = createFakeData();
+  const converse = createFakeConverse();
+  const readbacks: string[] = [];
+  const stopped: string[] = [];
+  backend = await connectGemini({
+    data,
+    converseApi: converse,
+    tag: 'live',
+    apiKey: 'test-key',
+    getMode: () => mode,
+    getOutputMuted: () => false,
+    readbackInstruction: (text) => {
+      readbacks.push(text);
+      return () => stopped.push(text);
+    },
+    createLiveClient: () => live.client,
+  });
+  await advance(0); // the TTS session dials on its first backoff slot
+  const main = live.sessions.find((s) => s.params.config?.tools)!;
+  const tts = live.sessions.find((s) => !s.params.config?.tools)!;
+  assert.ok(backend && main && tts);
+  return { backend, live, data, converse, readbacks, stopped, main, tts };
+}
+
+function converseCall(session: FakeSession, instruction: string) {
+  session.receive({ toolCall: { functionCalls: [{ id: 'call-1', name: 'converse', args: { instruction } }] } });
+}
+
+function toolResponses(session: FakeSession) {
+  return session.sent
+    .filter((m) => m.kind === 'toolResponse')
+    .map((m) => (m.payload as { functionResponses: { response: unknown }[] }).functionResponses[0]!.response);
+}
+
+test('direct mode streams the instruction to Claude and reads the reply', async () => {
+  const { data, converse, main, tts } = await connect('direct');
+  main.receive({ serverContent: { inputTranscription: { text: 'add a test' } } });
+  converseCall(main, 'add a test for the parser');
+  await settle();
+
+  assert.deepEqual(data.calls('appendInput'), [['add a test']]);
+  assert.deepEqual(converse.instructions, ['add a test for the parser']);
+  assert.deepEqual(toolResponses(main), [{ result: 'done' }]);
+
+  converse.callbacks.onChunk(REPLY);
+  converse.callbacks.onDone?.(0.02, 1500);
+  assert.deepEqual(tts.texts(), [`[READ]: ${REPLY}`]);
+  assert.deepEqual(data.calls('recordCost'), [[0.02]]);
+
+  main.receive({ serverContent: { turnComplete: true } });
+  assert.ok(data.calls('commitTurn').length > 0);
+});
+
+test('review mode reads the instruction back and waits for approval', async () => {
+  const { backend, data, converse, readbacks, stopped, main } = await connect('review');
+  converseCall(main, 'delete the build folder');
+  await settle();
+
+  assert.deepEqual(readbacks, ['delete the build folder']);
+  assert.deepEqual(converse.instructions, []);
+  assert.deepEqual(toolResponses(main), []);
+  backend.sendRealtimeInput(AUDIO);
+  assert.equal(main.sent.filter((m) => m.kind === 'realtimeInput').length, 0);
+
+  data.approve('delete the dist folder');
+  assert.deepEqual(stopped, ['delete the build folder']);
+  assert.deepEqual(converse.instructions, ['delete the dist folder']);
+  assert.deepEqual(toolResponses(main), [{ result: 'done' }]);
+  backend.sendRealtimeInput(AUDIO);
+  assert.equal(main.sent.filter((m) => m.kind === 'realtimeInput').length, 1);
+});
+
+test('review mode rejection answers the model without running anything', async () => {
+  const { data, converse, main } = await connect('review');
+  converseCall(main, 'force push to main');
+  await settle();
+
+  data.reject();
+  assert.deepEqual(converse.instructions, []);
+  assert.deepEqual(toolResponses(main), [{ status: 'rejected' }]);
+});
+
+test('the stop tool aborts the run in flight', async () => {
+  const { data, converse, main, tts } = await connect('direct');
+  converseCall(main, 'refactor the store');
+  await settle();
+  main.receive({ toolCall: { functionCalls: [{ id: 'call-2', name: 'stop', args: {} }] } });
+  await settle();
+
+  assert.equal(converse.aborts, 1);
+  assert.deepEqual(toolResponses(main), [{ result: 'done' }, { result: 'stopped' }]);
+  assert.equal(data.calls('finishTool').length, 1);
+  converse.callbacks.onChunk(REPLY);
+  converse.callbacks.onDone?.(0.01, 900);
+  assert.deepEqual(tts.texts(), []);
+  assert.deepEqual(data.calls('recordCost'), []);
+});
+
+test('talking over the reply (barge-in) aborts the run and silences it', async () => {
+  const { converse, main, tts } = await connect('direct');
+  converseCall(main, 'explain the diff');
+  await settle();
+  converse.callbacks.onChunk(REPLY);
+  assert.deepEqual(tts.texts(), [`[READ]: ${REPLY}`]);
+
+  main.receive({ serverContent: { interrupted: true } });
+  assert.equal(converse.aborts, 1);
+  converse.callbacks.onChunk(' And one more thing about the parser, too.');
+  converse.callbacks.onDone?.(0.01, 900);
+  assert.deepEqual(tts.texts(), [`[READ]: ${REPLY}`]);
+});
+
+test('a failed first connect closes the TTS session it started', async () => {
+  const live = createFakeLive();
+  const data = createFakeData();
+  live.failNext(1); // the Live session dials first; the TTS waits for its backoff slot
+  const result = await connectGemini({
+    data,
+    converseApi: createFakeConverse(),
+    tag: 'live',
+    apiKey: 'test-key',
+    getMode: () => 'direct',
+    getOutputMuted: () => false,
+    readbackInstruction: () => () => {},
+    createLiveClient: () => live.client,
+  });
+  assert.equal(result, null);
+  assert.deepEqual(data.calls('pushError'), [['Failed: connect refused']]);
+  for (let n = 0; n < 8; n++) await advance(8000);
+  assert.equal(live.attempts, 1);
+  assert.ok(live.sessions.every((s) => s.closed));
+});
@@ -17,20 +17,32 @@
  * API while Claude streams. The tool response is sent immediately as
  * `{ result: "done" }` to unfreeze Gemini. A persistent TTS session
  * (one per voice session) handles audio output — no relay through the
- * main session.
+ * main session. What each tool does lives in relay.ts, shared with the
+ * other providers.
+ *
+ * ## Reconnects
+ *
+ * Live sessions are cut off at a server time limit (announced by `goAway`)
+ * and can drop unexpectedly. The latest handle from `sessionResumptionUpdate`
+ * lets a fresh connection pick up the same conversation, so both cases
+ * reconnect in place: status goes to `reconnecting`, any in-flight converse
+ * keeps streaming, and callbacks from the replaced connection are ignored.
+ * Retries back off exponentially (backoff.ts). A drop, unlike a goAway
+ * handover, is announced with an earcon and a toast, and so is recovery.
  */
 
 import {
   GoogleGenAI,
   Modality,
   type LiveSendToolResponseParameters,
-  type Session,
   type LiveServerMessage,
 } from '@google/genai';
-import { TOOLS, handleToolCall } from './tools';
+import { MAX_RECONNECTS, backoffDelay, sleep } from './backoff';
+import { playConnectionLost, playConnectionRestored } from './sounds';
+import { createRelay } from './relay';
+import { TOOLS } from './tools';
 import { openTTSSession } from './tts-session';
-import { STOP_WORDS, startKeywordListener, startVoiceApproval } from './voice-approval';
-import type { ConverseApi, DataStoreMethods, InteractionMode, LiveBackend } from './types';
+import type { ConnectDeps, LiveBackend, LiveSession } from './types';
 
 // --- Log styles ---
 const BLUE_BADGE = 'background:#2563eb;color:white;font-weight:bold;padding:1px 6px;border-radius:3px';
@@ -42,7 +54,8 @@ You are a voice relay between a user and Claude Code (a powerful coding agent).
 <RULES>
 1. When the user gives an instruction, call the converse tool. You will receive streaming outputs from Claude Code as if you did it so you have full context to better understand what the user wants.
 2. When the user wants to cancel current work (e.g. "stop", "cancel", "nevermind"), call the stop tool.
-3. DO NOT talk to the user. You are a relay only. Your audio is muted anyway.
+3. When the user wants to work in a different repository or project, call the switch_project tool.
+4. DO NOT talk to the user. You are a relay only. Your audio is muted anyway.
 </RULES>
 
 You are a transparent bridge. The user is talking TO Claude Code THROUGH you.
@@ -50,16 +63,6 @@ You are a transparent bridge. The user is talking TO Claude Code THROUGH you.
 
 const MODEL = 'gemini-2.5-flash-native-audio-preview-12-2025';
 
-interface ConnectDeps {
-  data: DataStoreMethods;
-  converseApi: ConverseApi;
-  tag: string;
-  apiKey: string;
-  getMode: () => InteractionMode;
-  getOutputMuted: () => boolean;
-  readbackInstruction: (text: string) => () => void;
-}
-
 /**
  * Connect to Gemini Live and return a LiveBackend handle.
  * Returns null on failure (error is pushed to data store).
@@ -67,19 +70,32 @@ interface ConnectDeps {
 export async function connectGemini(deps: ConnectDeps): Promise<LiveBackend | null> {
   const { data, converseApi, apiKey } = deps;
 
-  const ai = new GoogleGenAI({ apiKey });
+  const live = deps.createLiveClient?.(apiKey) ?? new GoogleGenAI({ apiKey }).live;
   data.setStatus('connecting');
 
   // Mutable ref — handleMessage closes over this, assigned after connect().
-  let sessionRef: Session | null = null;
+  let sessionRef: LiveSession | null = null;
   let closed = false; // hoisted so onclose callback can reach it
-  let approvalPending = false; // true during BLOCKING approval hold — gates sendRealtimeInput
-  let activeConverse: { abort: () => void } | null = null; // Claude SSE abort handle
-  const tts = openTTSSession(apiKey, deps.getOutputMuted, (text) => {
+  let generation = 0; // bumped per connection — callbacks from a replaced one are ignored
+  let resumeHandle: string | undefined; // latest from sessionResumptionUpdate
+  let reconnecting = false;
+  let failures = 0; // reconnect attempts since a connection last heard from the server
+  let earconCtx: AudioContext | null = null;
+  const tts = openTTSSession(live, deps.getOutputMuted, (text) => {
     if (!closed && sessionRef) {
       sessionRef.sendClientContent({ turns: [{ role: 'model', parts: [{ text }] }], turnComplete: false });
       console.log(`%c GEMINI %c ${ts()} ← ${text.length} chars`, BLUE_BADGE, DIM);
     }
+  }, (state) => {
+    if (state === 'lost') {
+      earcon(playConnectionLost);
+      data.notify('Speech output dropped — reconnecting…');
+    } else if (state === 'restored') {
+      earcon(playConnectionRestored);
+      data.notify('Speech output reconnected');
+    } else {
+      data.pushError('Speech output disconnected');
+    }
   });
   let modelAudioSeen = false; // first model audio per turn — VAD-to-response proxy
   const t0 = Date.now();
@@ -90,157 +106,38 @@ export async function connectGemini(deps: ConnectDeps): Promise<LiveBackend | nu
     return `${String(mins).padStart(2, '0')}:${secs.toFixed(2).padStart(5, '0')}`;
   };
 
+  const relay = createRelay({
+    ...deps,
+    tts,
+    respond: (call, response) => {
+      sessionRef?.sendToolResponse({
+        functionResponses: [{ id: call.id, name: call.name, response }],
+      });
+    },
+    log: (text, ...args) => console.log(`%c GEMINI %c ${ts()} ${text}`, BLUE_BADGE, DIM, ...args),
+  });
+
   async function handleMessage(message: LiveServerMessage) {
     // --- Tool calls ---
     if (message.toolCall?.functionCalls) {
-      const mode = deps.getMode();
-      data.commitTurn();
-      for (const fc of message.toolCall.functionCalls) {
-        console.log(`%c GEMINI %c ${ts()} tool: ${fc.name}`, BLUE_BADGE, DIM, fc.args);
-
-        // Stop is pure control flow — no pendingTool needed
-        if (fc.name === 'stop') {
-          console.log(`%c GEMINI %c ${ts()} ⏹ STOP (tool) — aborting active converse`, BLUE_BADGE, DIM);
-          activeConverse?.abort();
-          sessionRef?.sendToolResponse({
-            functionResponses: [{ id: fc.id, name: 'stop', response: { result: 'stopped' } }],
-          });
-          continue;
-        }
-
-        data.startTool(fc.name!, fc.args ?? {});
-
-        if (fc.name === 'converse') {
-          const instruction = String(
-            (fc.args as Record<string, unknown>)?.instruction ?? '',
-          );
-
-          // Shared rejection handler — unfreezes Gemini without executing
-          const rejectAndUnfreeze = () => {
-            sessionRef?.sendToolResponse({
-              functionResponses: [{
-                id: fc.id, name: 'converse',
-                response: { status: 'rejected' },
-              }],
-            });
-          };
-
-          // Streams Claude's response via SSE. Inner Gemini TTS handles audio.
-          // Both lifecycles are bundled into activeConverse so any user speech
-          // can tear down both at once via abort().
-          const executeConverse = (approvedInstruction: string) => {
-            activeConverse?.abort(); // safety: close any previous
-            data.commitUserMessage(approvedInstruction);
-
-            // Unfreeze Outer Gemini immediately — Inner Gemini handles audio separately
-            sessionRef?.sendToolResponse({
-              functionResponses: [{ id: fc.id, name: 'converse', response: { result: 'done' } }],
-            });
-
-            let aborted = false;
-            let claudeDone = false;
-            let stopKeywords: (() => void) | null = null;
-
-            const abort = () => {
-              if (aborted) return;
-              aborted = true;
-              converseApi.abort();
-              tts.interrupt();
-              stopKeywords?.();
-              if (!claudeDone) data.finishTool();
-              activeConverse = null;
-            };
-            activeConverse = { abort };
-
-            const stopMap: Record<string, () => void> = {};
-            for (const w of STOP_WORDS) stopMap[w] = () => abort();
-            stopKeywords = startKeywordListener(stopMap, { tag: 'stop' });
-
-            converseApi.stream(approvedInstruction, {
-              onChunk(text) {
-                if (aborted) return;
-                data.appendTool(text);
-                tts.send(text);
-              },
-              onBlock(block) {
-                if (aborted) return;
-                data.appendBlock(block);
-              },
-              onDone() {
-                if (aborted) return;
-                claudeDone = true;
-                tts.finish();
-                data.finishTool();
-                // activeConverse stays alive — Inner Gemini may still be draining audio
-              },
-              onError(msg) {
-                if (aborted) return;
-                abort();
-                data.pushError(msg);
-              },
-            });
-          };
-
-          // Hold for approval with voice + UI. Starts voice listener,
-          // gates mic audio away from frozen Gemini, cleans up on resolve.
-          const holdWithVoice = (
-            approvalPayload: Parameters<typeof data.holdForApproval>[0],
-            stopReadback: () => void,
-          ) => {
-            approvalPending = true;
-            let resolved = false;
-            let stopVoice: (() => void) | null = null;
-
-            const onAccept = (approved: string) => {
-              if (resolved) return;
-              resolved = true;
-              stopVoice?.();
-              stopReadback();
-              approvalPending = false;
-              executeConverse(approved);
-            };
-            const onCancel = () => {
-              if (resolved) return;
-              resolved = true;
-              stopVoice?.();
-              stopReadback();
-              approvalPending = false;
-              rejectAndUnfreeze();
-            };
-
-            // Voice triggers same store methods the UI buttons use.
-            stopVoice = startVoiceApproval(
-              () => data.approve(),
-              () => data.reject(),
-            );
-
-            data.holdForApproval(approvalPayload, onAccept, onCancel);
-          };
-
-          if (mode === 'direct') {
-            executeConverse(instruction);
-          } else {
-            console.log(`${ts()} review mode: holding for approval`);
-            const stopReadback = deps.readbackInstruction(instruction);
-            holdWithVoice({ instruction }, stopReadback);
-          }
-          continue;
-        }
-
-        const result = await handleToolCall(fc.name!, fc.args ?? {});
-        console.log(`${ts()} tool result:`, result);
-        data.appendTool(JSON.stringify(result));
-        data.finishTool();
-        sessionRef?.sendToolResponse({
-          functionResponses: [{ id: fc.id, name: fc.name, response: result }],
-        });
-      }
+      await relay.handleToolCalls(message.toolCall.functionCalls.map((fc) => ({
+        id: fc.id,
+        name: fc.name!,
+        args: fc.args ?? {},
+      })));
       return;
     }
 
+    // --- Session resumption (handle for reconnecting into this conversation) ---
+    if (message.sessionResumptionUpdate) {
+      const { resumable, newHandle } = message.sessionResumptionUpdate;
+      if (resumable && newHandle) resumeHandle = newHandle;
+    }
+
     // --- GoAway (server about to disconnect) ---
     if (message.goAway) {
       console.log(`%c GEMINI %c ${ts()} ⚠ goAway — timeLeft: ${message.goAway.timeLeft}`, BLUE_BADGE, DIM);
+      void reconnect('goAway');
     }
 
     // --- Usage metadata (periodic token counts) ---
@@ -255,10 +152,9 @@ export async function connectGemini(deps: ConnectDeps): Promise<LiveBackend | nu
     if (!sc) return;
 
     if (sc.interrupted) {
-      console.log(`%c GEMINI %c ${ts()} interrupted (sc.interrupted)${activeConverse ? ' — aborting active converse' : ''}`, BLUE_BADGE, DIM);
+      console.log(`%c GEMINI %c ${ts()} interrupted (sc.interrupted)`, BLUE_BADGE, DIM);
       modelAudioSeen = false;
-      activeConverse?.abort();
-      data.commitTurn();
+      relay.interrupt();
       return;
     }
 
@@ -297,8 +193,11 @@ export async function connectGemini(deps: ConnectDeps): Promise<LiveBackend | nu
     }
   }
 
-  try {
-    const session = await ai.live.connect({
+  /** Open a connection, resuming the conversation when there's a handle. */
+  function openSession(): Promise<LiveSession> {
+    const gen = ++generation;
+    let heard = false;
+    return live.connect({
       model: MODEL,
       config: {
         responseModalities: [Modality.AUDIO],
@@ -306,48 +205,120 @@ export async function connectGemini(deps: ConnectDeps): Promise<LiveBackend | nu
         systemInstruction: BASE_PROMPT,
         inputAudioTranscription: {},
         outputAudioTranscription: {},
+        sessionResumption: { handle: resumeHandle },
+        contextWindowCompression: { slidingWindow: {} },
       },
       callbacks: {
         onopen: () => {
-          console.log(`%c GEMINI %c ${ts()} connected (${Date.now() - t0}ms)`, BLUE_BADGE, DIM);
+          if (gen !== generation) return;
+          console.log(`%c GEMINI %c ${ts()} connected (${Date.now() - t0}ms)${resumeHandle ? ' — resumed' : ''}`, BLUE_BADGE, DIM);
           data.setStatus('connected');
         },
-        onmessage: (msg: LiveServerMessage) => handleMessage(msg),
+        onmessage: (msg: LiveServerMessage) => {
+          if (gen !== generation) return;
+          if (!heard) {
+            heard = true;
+            failures = 0;
+          }
+          void handleMessage(msg);
+        },
         onerror: (e: ErrorEvent) => {
+          if (gen !== generation) return;
           console.error(`${ts()} error:`, e);
           data.pushError(`Error: ${e.message}`);
         },
         onclose: (e: CloseEvent) => {
-          const wasExpected = closed; // user-initiated stop() already set this
-          closed = true;
-          sessionRef = null;
-          activeConverse?.abort();
-          tts.close();
+          if (gen !== generation) return; // replaced by a reconnect, or torn down
           console.log(`${ts()} closed: ${e.reason}`);
-          data.setStatus('idle');
-          if (!wasExpected && e.reason) {
-            data.pushError(`Gemini disconnected: ${e.reason}`);
-          }
+          void reconnect(e.reason || `code ${e.code}`);
         },
       },
     });
-    sessionRef = session;
+  }
+
+  /** Swap in a new connection; the old one is closed once the new one is up. */
+  async function reconnect(reason: string) {
+    if (closed || reconnecting) return;
+    reconnecting = true;
+    const dropped = reason !== 'goAway';
+    console.log(`%c GEMINI %c ${ts()} reconnecting (${reason})${resumeHandle ? ' with resumption handle' : ''}`, BLUE_BADGE, DIM);
+    data.setStatus('reconnecting');
+    if (dropped) {
+      earcon(playConnectionLost);
+      data.notify('Voice connection lost — reconnecting…');
+    }
+    const old = sessionRef;
+    sessionRef = null;
+    try {
+      while (!closed) {
+        if (failures >= MAX_RECONNECTS) {
+          teardown(`Gemini disconnected: ${reason}`);
+          return;
+        }
+        await sleep(backoffDelay(failures++));
+        if (closed) return;
+        try {
+          const next = await openSession();
+          if (closed) {
+            next.close();
+            return;
+          }
+          sessionRef = next;
+          if (dropped) {
+            earcon(playConnectionRestored);
+            data.notify('Voice reconnected');
+          }
+          return;
+        } catch (e: unknown) {
+          console.warn(`${ts()} reconnect attempt ${failures} failed:`, e);
+        }
+      }
+    } finally {
+      old?.close();
+      reconnecting = false;
+    }
+  }
+
+  /** Connection cues — on a walk the screen isn't where you're looking. */
+  function earcon(play: (ctx: AudioContext) => void) {
+    if (closed || deps.getOutputMuted()) return;
+    earconCtx ??= new AudioContext();
+    play(earconCtx);
+  }
+
+  /** Final teardown — after stop(), or when reconnecting gave up. */
+  function teardown(error?: string) {
+    closed = true;
+    generation++;
+    sessionRef = null;
+    relay.close();
+    tts.close();
+    void earconCtx?.close();
+    earconCtx = null;
+    data.setStatus('idle');
+    if (error) data.pushError(error);
+  }
+
+  try {
+    sessionRef = await openSession();
     converseApi.sessionStart = t0;
     console.log(`%c GEMINI %c ${ts()} [SYSTEM]`, BLUE_BADGE, DIM);
     console.log(`%c${BASE_PROMPT.trim()}`, 'color:#9ca3af;white-space:pre-wrap');
 
     return {
-      sendRealtimeInput: (input) => { if (!closed && !approvalPending) session.sendRealtimeInput(input); },
-      sendClientContent: (content) => { if (!closed) session.sendClientContent(content); },
-      sendToolResponse: (response) => { if (!closed) session.sendToolResponse(response as LiveSendToolResponseParameters); },
-      close: () => { activeConverse?.abort(); tts.close(); closed = true; sessionRef = null; session.close(); },
+      sendRealtimeInput: (input) => { if (!closed && !relay.approvalPending) sessionRef?.sendRealtimeInput(input); },
+      sendClientContent: (content) => { if (!closed) sessionRef?.sendClientContent(content); },
+      sendToolResponse: (response) => { if (!closed) sessionRef?.sendToolResponse(response as LiveSendToolResponseParameters); },
+      close: () => {
+        const session = sessionRef;
+        teardown();
+        session?.close();
+      },
     };
   } catch (e: unknown) {
     console.error(`${ts()} connect failed:`, e);
-    data.pushError(
-      `Failed: ${e instanceof Error ? e.message : String(e)}`,
-    );
-    data.setStatus('idle');
+    // The TTS session is already dialling — close it with everything else
+    teardown(`Failed: ${e instanceof Error ? e.message : String(e)}`);
     return null;
   }
 }
@@ -0,0 +1,281 @@
+/**
+ * OpenAI Realtime connection and event handling.
+ * Plain .ts — no runes, no reactive state.
+ * The OpenAI counterpart of gemini.ts, selectable in settings (providers.ts).
+ *
+ * ## Event flow
+ *
+ * Mic audio is resampled to the 24kHz Realtime expects and appended to the
+ * input buffer; server VAD cuts it into turns. We act on three kinds of
+ * server events:
+ *
+ * 1. **input transcription deltas** — STT, shown as the user speaks
+ * 2. **response.done** — function calls the model made, routed by relay.ts
+ *    exactly as Gemini's are; a response cancelled because the user
+ *    started talking is the analogue of Gemini's `interrupted`
+ * 3. **error**
+ *
+ * The session is text-only: the model never speaks. Claude's reply is read
+ * by a separate Realtime TTS session (openai-tts.ts) and fed back here as
+ * assistant items so the model keeps the context.
+ *
+ * ## Approval hold
+ *
+ * Realtime has no BLOCKING functions. While an instruction waits for
+ * approval, mic audio isn't appended, and the function output is only sent
+ * once it's approved or rejected — the same gate as on Gemini.
+ *
+ * ## Reconnects
+ *
+ * A dropped socket reconnects with backoff (realtime-socket.ts), with the
+ * same earcons and toasts as Gemini. There's no resumption handle, so the
+ * model starts the new session without the old conversation; Claude's
+ * session is unaffected.
+ */
+
+import { resamplePcm16 } from './audio';
+import { openOpenAITTS } from './openai-tts';
+import { openRealtimeSocket, type RealtimeEvent, type RealtimeSocket } from './realtime-socket';
+import { createRelay, type ToolCall } from './relay';
+import { playConnectionLost, playConnectionRestored } from './sounds';
+import { OPENAI_TOOLS } from './tools';
+import type { ConnectDeps, ConnectionState, LiveBackend } from './types';
+
+// --- Log styles ---
+const BLACK_BADGE = 'background:#111827;color:white;font-weight:bold;padding:1px 6px;border-radius:3px';
+const DIM = 'color:#9ca3af';
+
+const BASE_PROMPT = `
+You are a voice relay between a user and Claude Code (a powerful coding agent).
+
+<RULES>
+1. When the user gives an instruction, call the converse tool. You will receive streaming outputs from Claude Code as if you did it so you have full context to better understand what the user wants.
+2. When the user wants to cancel current work (e.g. "stop", "cancel", "nevermind"), call the stop tool.
+3. When the user wants to work in a different repository or project, call the switch_project tool.
+4. DO NOT talk to the user. You are a relay only. Never answer in text; only call tools.
+</RULES>
+
+You are a transparent bridge. The user is talking TO Claude Code THROUGH you.
+`;
+
+const TRANSCRIBE_MODEL = 'gpt-4o-mini-transcribe';
+const INPUT_RATE = 24000;
+
+interface FunctionCallItem {
+  type: string;
+  call_id?: string;
+  name?: string;
+  arguments?: string;
+}
+
+/**
+ * Connect to OpenAI Realtime and return a LiveBackend handle.
+ * Returns null on failure (error is pushed to data store).
+ */
+export async function connectOpenAI(deps: ConnectDeps): Promise<LiveBackend | null> {
+  const { data, converseApi } = deps;
+  data.setStatus('connecting');
+
+  let socket: RealtimeSocket | null = null;
+  let closed = false;
+  let earconCtx: AudioContext | null = null;
+  const t0 = Date.now();
+  const ts = () => {
+    const elapsed = (Date.now() - t0) / 1000;
+    const mins = Math.floor(elapsed / 60);
+    const secs = elapsed % 60;
+    return `${String(mins).padStart(2, '0')}:${secs.toFixed(2).padStart(5, '0')}`;
+  };
+  const log = (text: string, ...args: unknown[]) => console.log(`%c OPENAI %c ${ts()} ${text}`, BLACK_BADGE, DIM, ...args);
+
+  const tts = openOpenAITTS(deps.getOutputMuted, (text) => {
+    if (!closed && socket) {
+      socket.send(assistantItem(text));
+      log(`← ${text.length} chars`);
+    }
+  }, (state) => {
+    if (state === 'lost') {
+      earcon(playConnectionLost);
+      data.notify('Speech output dropped — reconnecting…');
+    } else if (state === 'restored') {
+      earcon(playConnectionRestored);
+      data.notify('Speech output reconnected');
+    } else {
+      data.pushError('Speech output disconnected');
+    }
+  });
+
+  const relay = createRelay({
+    ...deps,
+    tts,
+    respond: (call, response) => {
+      socket?.send({
+        type: 'conversation.item.create',
+        item: { type: 'function_call_output', call_id: call.id, output: JSON.stringify(response) },
+      });
+    },
+    log,
+  });
+
+  function handleEvent(event: RealtimeEvent) {
+    switch (event.type) {
+      // User speech — accumulate, let the model decide via tool calls
+      case 'conversation.item.input_audio_transcription.delta': {
+        const text = String(event.delta ?? '');
+        if (text) data.appendInput(text);
+        break;
+      }
+      case 'conversation.item.input_audio_transcription.completed':
+        log(`[user] ${String(event.transcript ?? '')}`);
+        break;
+      case 'response.done': {
+        const response = event.response as {
+          status?: string;
+          status_details?: { reason?: string };
+          output?: FunctionCallItem[];
+        };
+        if (response.status === 'cancelled' && response.status_details?.reason === 'turn_detected') {
+          log('interrupted (turn_detected)');
+          relay.interrupt();
+          return;
+        }
+        const calls: ToolCall[] = (response.output ?? [])
+          .filter((item) => item.type === 'function_call')
+          .map((item) => ({ id: item.call_id, name: item.name ?? '', args: parseArgs(item.arguments) }));
+        if (calls.length) {
+          void relay.handleToolCalls(calls);
+        } else {
+          log('done');
+          data.commitTurn();
+        }
+        break;
+      }
+      case 'error': {
+        const error = event.error as { message?: string } | undefined;
+        console.error(`${ts()} error:`, error);
+        data.pushError(`Error: ${error?.message ?? 'unknown'}`);
+        break;
+      }
+    }
+  }
+
+  function onConnection(state: ConnectionState) {
+    if (state === 'lost') {
+      data.setStatus('reconnecting');
+      earcon(playConnectionLost);
+      data.notify('Voice connection lost — reconnecting…');
+    } else if (state === 'restored') {
+      data.setStatus('connected');
+      earcon(playConnectionRestored);
+      data.notify('Voice reconnected');
+    } else {
+      teardown('OpenAI disconnected');
+    }
+  }
+
+  /** Connection cues — on a walk the screen isn't where you're looking. */
+  function earcon(play: (ctx: AudioContext) => void) {
+    if (closed || deps.getOutputMuted()) return;
+    earconCtx ??= new AudioContext();
+    play(earconCtx);
+  }
+
+  /** Final teardown — after stop(), or when reconnecting gave up. */
+  function teardown(error?: string) {
+    closed = true;
+    relay.close();
+    tts.close();
+    socket?.close();
+    socket = null;
+    void earconCtx?.close();
+    earconCtx = null;
+    data.setStatus('idle');
+    if (error) data.pushError(error);
+  }
+
+  try {
+    socket = await openRealtimeSocket({
+      session: {
+        type: 'realtime',
+        instructions: BASE_PROMPT,
+        output_modalities: ['text'],
+        audio: {
+          input: {
+            format: { type: 'audio/pcm', rate: INPUT_RATE },
+            transcription: { model: TRANSCRIBE_MODEL },
+            turn_detection: { type: 'server_vad', create_response: true, interrupt_response: true },
+          },
+        },
+        tools: OPENAI_TOOLS,
+        tool_choice: 'auto',
+      },
+      onEvent: handleEvent,
+      onConnection,
+      log,
+    });
+    if (closed) {
+      socket.close();
+      return null;
+    }
+    log(`connected (${Date.now() - t0}ms)`);
+    data.setStatus('connected');
+    converseApi.sessionStart = t0;
+    log('[SYSTEM]');
+    console.log(`%c${BASE_PROMPT.trim()}`, 'color:#9ca3af;white-space:pre-wrap');
+
+    return {
+      sendRealtimeInput: (input) => {
+        if (closed || relay.approvalPending || !input.audio) return;
+        const rate = Number(/rate=(\d+)/.exec(input.audio.mimeType)?.[1] ?? INPUT_RATE);
+        socket?.send({ type: 'input_audio_buffer.append', audio: resamplePcm16(input.audio.data, rate, INPUT_RATE) });
+      },
+      sendClientContent: (content) => {
+        if (closed) return;
+        for (const turn of content.turns) {
+          const text = turn.parts.map((p) => p.text ?? '').join('');
+          if (!text) continue;
+          socket?.send(turn.role === 'user'
+            ? { type: 'conversation.item.create', item: { type: 'message', role: 'user', content: [{ type: 'input_text', text }] } }
+            : assistantItem(text));
+        }
+        if (content.turnComplete) socket?.send({ type: 'response.create' });
+      },
+      sendToolResponse: (response) => {
+        if (closed) return;
+        const { functionResponses = [] } = response as { functionResponses?: { id?: string; response?: unknown }[] };
+        for (const fr of functionResponses) {
+          socket?.send({
+            type: 'conversation.item.create',
+            item: { type: 'function_call_output', call_id: fr.id, output: JSON.stringify(fr.response ?? {}) },
+          });
+        }
+      },
+      close: () => teardown(),
+    };
+  } catch (e: unknown) {
+    console.error(`${ts()} connect failed:`, e);
+    data.pushError(
+      `Failed: ${e instanceof Error ? e.message : String(e)}`,
+    );
+    relay.close();
+    tts.close();
+    data.setStatus('idle');
+    return null;
+  }
+}
+
+function assistantItem(text: string): RealtimeEvent {
+  return {
+    type: 'conversation.item.create',
+    item: { type: 'message', role: 'assistant', content: [{ type: 'output_text', text }] },
+  };
+}
+
+function parseArgs(json: string | undefined): Record<string, unknown> {
+  try {
+    const args = JSON.parse(json || '{}');
+    return args && typeof args === 'object' ? args : {};
+  } catch {
+    return {};
+  }
+}
@@ -0,0 +1,148 @@
+/**
+ * Persistent OpenAI Realtime session that acts as a streaming TTS pipe.
+ * The OpenAI counterpart of tts-session.ts: owns its own socket, sentence
+ * buffer, and audio player.
+ *
+ * A Realtime conversation runs one response at a time, so flushed
+ * sentences are queued and read in order, each as a user item plus a
+ * `response.create`. Read items are deleted once spoken so the session
+ * doesn't grow with every sentence. The queue also holds text flushed
+ * before the socket opens or while it reconnects.
+ */
+
+import { createSentenceBuffer } from './buffer';
+import { createPlayer } from './audio';
+import { openRealtimeSocket, type RealtimeEvent, type RealtimeSocket } from './realtime-socket';
+import type { ConnectionState, StreamingTTS } from './types';
+
+const TTS_PROMPT = 'You are a text-to-speech reader. Read aloud EXACTLY what the user sends, word for word. NEVER respond, answer questions, or add commentary. Just read the text out loud.';
+const VOICE = 'marin';
+
+// Log styles
+const GREEN_BADGE = 'background:#059669;color:white;font-weight:bold;padding:1px 6px;border-radius:3px';
+const DIM = 'color:#9ca3af';
+
+export function openOpenAITTS(
+  isOutputMuted: () => boolean,
+  onFlush?: (text: string) => void,
+  onConnection?: (state: ConnectionState) => void,
+): StreamingTTS {
+  const player = createPlayer();
+  let socket: RealtimeSocket | null = null;
+  let closed = false;
+  let muted = false;
+  let reading = false; // a response is in flight — the next sentence waits for response.done
+  let readCount = 0;
+  const queue: string[] = []; // flushed sentences not yet sent
+
+  function pump() {
+    if (closed || reading || !socket || !queue.length) return;
+    const text = queue[0]!;
+    const id = `read_${++readCount}`;
+    const sent = socket.send({
+      type: 'conversation.item.create',
+      item: { id, type: 'message', role: 'user', content: [{ type: 'input_text', text: `[READ]: ${text}` }] },
+    }) && socket.send({ type: 'response.create' });
+    if (!sent) return; // down — the reconnect pumps again
+    queue.shift();
+    reading = true;
+    console.log(`%c TTS %c ← [${queue.length} queued] ${text}`, GREEN_BADGE, DIM);
+  }
+
+  const sentenceBuf = createSentenceBuffer((text) => {
+    if (closed) {
+      console.warn(`%c TTS %c dropped (session closed): ${text}`, GREEN_BADGE, DIM);
+      return;
+    }
+    queue.push(text);
+    pump();
+    onFlush?.(text);
+  });
+
+  function handleEvent(event: RealtimeEvent) {
+    switch (event.type) {
+      case 'response.output_audio.delta':
+        if (!closed && !muted && !isOutputMuted()) player.play(String(event.delta));
+        break;
+      case 'response.output_audio_transcript.done':
+        console.log(`%c TTS %c → ${String(event.transcript)}`, GREEN_BADGE, DIM);
+        break;
+      case 'response.done': {
+        reading = false;
+        const response = event.response as { output?: { id?: string }[] } | undefined;
+        const spoken = [`read_${readCount}`, ...(response?.output ?? []).map((o) => o.id)];
+        for (const id of spoken) {
+          if (id) socket?.send({ type: 'conversation.item.delete', item_id: id });
+        }
+        pump();
+        break;
+      }
+      case 'error':
+        console.error(`%c TTS %c error`, GREEN_BADGE, DIM, event.error);
+        break;
+    }
+  }
+
+  openRealtimeSocket({
+    session: {
+      type: 'realtime',
+      instructions: TTS_PROMPT,
+      output_modalities: ['audio'],
+      audio: {
+        input: { turn_detection: null },
+        output: { format: { type: 'audio/pcm', rate: 24000 }, voice: VOICE },
+      },
+    },
+    onEvent: handleEvent,
+    onConnection: (state) => {
+      reading = false; // whatever was in flight died with the socket
+      if (state === 'failed') {
+        closed = true;
+        queue.length = 0;
+      }
+      onConnection?.(state);
+      if (state === 'restored') pump();
+    },
+    log: (text, ...args) => console.log(`%c TTS %c ${text}`, GREEN_BADGE, DIM, ...args),
+  }).then((s) => {
+    if (closed) { s.close(); return; }
+    console.log(`%c TTS %c connected`, GREEN_BADGE, DIM);
+    socket = s;
+    pump();
+  }).catch((e) => {
+    console.error(`%c TTS %c connect failed`, GREEN_BADGE, DIM, e);
+    closed = true;
+    onConnection?.('failed');
+  });
+
+  return {
+    send(text: string) {
+      if (closed) return;
+      muted = false;
+      sentenceBuf.push(text);
+    },
+    finish() {
+      if (closed) return;
+      sentenceBuf.flush();
+    },
+    interrupt() {
+      if (closed) return;
+      muted = true;
+      sentenceBuf.clear();
+      queue.length = 0;
+      if (reading) socket?.send({ type: 'response.cancel' });
+      player.flush();
+      console.log(`%c TTS %c interrupted — muted`, GREEN_BADGE, DIM);
+    },
+    close() {
+      if (closed) return;
+      closed = true;
+      muted = true;
+      sentenceBuf.clear();
+      queue.length = 0;
+      player.flush();
+      player.stop();
+      socket?.close();
+    },
+  };
+}
@@ -0,0 +1,29 @@
+/**
+ * Voice provider registry.
+ * Each provider does STT and tool routing (a LiveBackend) plus streaming
+ * TTS behind one connect(); the data store starts whichever is selected
+ * in settings. Tool semantics live in relay.ts, so they're the same for all.
+ */
+
+import { connectBrowser } from './browser-voice';
+import { connectGemini } from './gemini';
+import { connectOpenAI } from './openai-realtime';
+import type { ConnectDeps, LiveBackend } from './types';
+
+export interface VoiceProvider {
+  label: string;
+  connect(deps: ConnectDeps): Promise<LiveBackend | null>;
+  /** The page holds no API key for it (connect gets an empty one). */
+  keyless?: boolean;
+}
+
+export const VOICE_PROVIDERS = {
+  gemini: { label: 'Gemini Live', connect: connectGemini },
+  // Connects with client secrets minted by the server, which keeps the key
+  openai: { label: 'OpenAI Realtime', connect: connectOpenAI, keyless: true },
+  browser: { label: 'Browser (local)', connect: connectBrowser, keyless: true },
+} satisfies Record<string, VoiceProvider>;
+
+export type VoiceProviderId = keyof typeof VOICE_PROVIDERS;
+
+export const DEFAULT_VOICE_PROVIDER: VoiceProviderId = 'gemini';
@@ -0,0 +1,43 @@
+/**
+ * Review-mode readback: the instruction read aloud while it waits for
+ * approval, in the selected provider's voice — Gemini TTS with the page's
+ * Gemini key, OpenAI speech through the server, which keeps OpenAI's key,
+ * and the browser's own speechSynthesis.
+ * Plain .ts — no runes, no reactive state.
+ */
+
+import { speak } from '../../lib/tts';
+import { playPcmChunks, uint8ToBase64 } from './audio';
+import type { VoiceProviderId } from './providers';
+
+const OPENAI_SPEECH_RATE = 24000;
+
+/** Start reading `text`; the returned function stops it. */
+export function readBack(provider: VoiceProviderId, text: string, geminiKey: string | null): () => void {
+  if (provider === 'browser') {
+    speechSynthesis.speak(new SpeechSynthesisUtterance(text));
+    return () => speechSynthesis.cancel();
+  }
+
+  let cancelled = false;
+  let stop: (() => void) | undefined;
+
+  const pcm = provider === 'openai' ? openaiSpeech(text) : geminiKey ? speak(geminiKey, text) : null;
+  if (!pcm) return () => {};
+  pcm.then(({ data, sampleRate }) => {
+    if (cancelled) return;
+    stop = playPcmChunks([data], sampleRate).stop;
+  }).catch((e) => console.error('[readback]', e));
+
+  return () => { cancelled = true; stop?.(); };
+}
+
+async function openaiSpeech(text: string): Promise<{ data: string; sampleRate: number }> {
+  const res = await fetch('/api/openai/speech', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ text }),
+  });
+  if (!res.ok) throw new Error((await res.json().catch(() => null))?.detail ?? `${res.status}`);
+  return { data: uint8ToBase64(new Uint8Array(await res.arrayBuffer())), sampleRate: OPENAI_SPEECH_RATE };
+}
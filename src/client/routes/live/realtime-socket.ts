@@ -0,0 +1,133 @@
+/**
+ * OpenAI Realtime WebSocket with reconnects.
+ * Plain .ts — no runes, no reactive state.
+ *
+ * The page never sees OPENAI_API_KEY: every dial first asks the server to
+ * mint a client secret (POST /api/openai/client-secret) that expires a
+ * minute later. Browsers can't set headers on a WebSocket, so the secret
+ * goes in the `openai-insecure-api-key.` subprotocol. Realtime sessions
+ * can't be resumed: a
+ * reconnect opens a fresh session and re-sends `session.update`, so the
+ * model forgets what it heard before the drop. Retries back off like the
+ * Gemini sockets (backoff.ts).
+ */
+
+import { MAX_RECONNECTS, backoffDelay, sleep } from './backoff';
+import type { ConnectionState } from './types';
+
+const REALTIME_URL = 'wss://api.openai.com/v1/realtime';
+const MODEL = 'gpt-realtime';
+
+export interface RealtimeEvent {
+  type: string;
+  [key: string]: unknown;
+}
+
+export interface RealtimeSocketOptions {
+  /** Sent as `session.update` on every (re)connect. */
+  session: Record<string, unknown>;
+  onEvent: (event: RealtimeEvent) => void;
+  onConnection?: (state: ConnectionState) => void;
+  log: (text: string, ...args: unknown[]) => void;
+}
+
+export interface RealtimeSocket {
+  /** False when the socket is down and the event was dropped. */
+  send(event: RealtimeEvent): boolean;
+  close(): void;
+}
+
+/** Resolves once the first connection is open; rejects if it can't be. */
+export async function openRealtimeSocket(opts: RealtimeSocketOptions): Promise<RealtimeSocket> {
+  let ws: WebSocket | null = null;
+  let closed = false;
+  let failures = 0; // reconnect attempts since a connection last heard from the server
+
+  async function dial(): Promise<WebSocket> {
+    const secret = await fetchClientSecret();
+    return new Promise((resolve, reject) => {
+      const sock = new WebSocket(`${REALTIME_URL}?model=${MODEL}`, ['realtime', `openai-insecure-api-key.${secret}`]);
+      let opened = false;
+      sock.onopen = () => {
+        opened = true;
+        sock.send(JSON.stringify({ type: 'session.update', session: opts.session }));
+        resolve(sock);
+      };
+      sock.onmessage = (e: MessageEvent) => {
+        if (sock !== ws) return; // replaced by a reconnect, or closed
+        failures = 0;
+        let event: RealtimeEvent;
+        try {
+          event = JSON.parse(String(e.data));
+        } catch {
+          return;
+        }
+        opts.onEvent(event);
+      };
+      sock.onclose = (e: CloseEvent) => {
+        if (!opened) {
+          reject(new Error(e.reason || `closed (code ${e.code})`));
+          return;
+        }
+        if (sock !== ws) return;
+        opts.log(`closed (code=${e.code} reason=${e.reason || 'none'})`);
+        void reconnect(e.reason || `code ${e.code}`);
+      };
+    });
+  }
+
+  async function reconnect(reason: string) {
+    ws = null;
+    if (closed) return;
+    opts.log(`reconnecting (${reason})`);
+    opts.onConnection?.('lost');
+    while (!closed) {
+      if (failures >= MAX_RECONNECTS) {
+        opts.log(`giving up after ${failures} attempts (${reason})`);
+        closed = true;
+        opts.onConnection?.('failed');
+        return;
+      }
+      await sleep(backoffDelay(failures++));
+      if (closed) return;
+      try {
+        const sock = await dial();
+        if (closed) {
+          sock.close();
+          return;
+        }
+        ws = sock;
+        opts.onConnection?.('restored');
+        return;
+      } catch (e) {
+        opts.log(`reconnect attempt ${failures} failed`, e);
+      }
+    }
+  }
+
+  ws = await dial();
+
+  return {
+    send(event) {
+      if (!ws || ws.readyState !== WebSocket.OPEN) return false;
+      ws.send(JSON.stringify(event));
+      return true;
+    },
+    close() {
+      if (closed) return;
+      closed = true;
+      const sock = ws;
+      ws = null;
+      sock?.close();
+    },
+  };
+}
+
+async function fetchClientSecret(): Promise<string> {
+  const res = await fetch('/api/openai/client-secret', { method: 'POST' });
+  const body = await res.json().catch(() => null);
+  if (!res.ok || typeof body?.value !== 'string') {
+    throw new Error(body?.detail ?? `client secret: ${res.status}`);
+  }
+  return body.value;
+}
@@ -0,0 +1,254 @@
+/**
+ * Tool routing shared by every voice provider.
+ * Plain .ts — no runes, no reactive state.
+ *
+ * A provider turns speech into tool calls; this decides what they do:
+ * `converse` streams the instruction to Claude (after approval in review
+ * mode), `stop` aborts the run in flight, anything else goes to the page's
+ * tool handlers. The provider only has to deliver calls and send back
+ * whatever `respond` is given, in its own wire format.
+ */
+
+import { handleToolCall } from './tools';
+import { STOP_WORDS, startKeywordListener, startVoiceApproval, startVoicePermission } from './voice-approval';
+import { toolUseLabel } from '../../lib/message-helpers';
+import type { ConnectDeps, StreamingTTS } from './types';
+
+export interface ToolCall {
+  id?: string;
+  name: string;
+  args: Record<string, unknown>;
+}
+
+export interface RelayDeps extends Omit<ConnectDeps, 'apiKey' | 'tag' | 'getOutputMuted'> {
+  tts: StreamingTTS;
+  /** Answer a tool call on the provider's session. */
+  respond: (call: ToolCall, response: Record<string, unknown>) => void;
+  log: (text: string, ...args: unknown[]) => void;
+  /** A converse finished, was aborted, or was rejected at approval. */
+  onSettled?: () => void;
+}
+
+export interface Relay {
+  handleToolCalls(calls: ToolCall[]): Promise<void>;
+  /** The user talked over the model — drop the run in flight. */
+  interrupt(): void;
+  /** True during an approval hold — mic audio shouldn't reach the frozen model. */
+  readonly approvalPending: boolean;
+  /**
+   * End the run in flight, if any; the relay stays usable. Also frees the
+   * run's stop listener for a provider that listens with SpeechRecognition itself.
+   */
+  close(): void;
+}
+
+export function createRelay(deps: RelayDeps): Relay {
+  const { data, converseApi, tts, respond, log } = deps;
+  let approvalPending = false;
+  let activeConverse: { abort: () => void } | null = null; // Claude SSE abort handle
+
+  async function handleToolCalls(calls: ToolCall[]) {
+    const mode = deps.getMode();
+    data.commitTurn();
+    for (const call of calls) {
+      log(`tool: ${call.name}`, call.args);
+
+      // Stop is pure control flow — no pendingTool needed
+      if (call.name === 'stop') {
+        log('⏹ STOP (tool) — aborting active converse');
+        activeConverse?.abort();
+        respond(call, { result: 'stopped' });
+        continue;
+      }
+
+      data.startTool(call.name, call.args);
+
+      if (call.name === 'converse') {
+        const instruction = String(call.args.instruction ?? '');
+        if (mode === 'direct') {
+          executeConverse(call, instruction);
+        } else {
+          log('review mode: holding for approval');
+          const stopReadback = deps.readbackInstruction(instruction);
+          holdWithVoice(call, { instruction }, stopReadback);
+        }
+        continue;
+      }
+
+      const result = await handleToolCall(call.name, call.args, deps.toolHandlers);
+      log('tool result:', result);
+      data.appendTool(JSON.stringify(result));
+      data.finishTool();
+      respond(call, result);
+    }
+  }
+
+  // Streams Claude's response via SSE. The TTS session handles audio.
+  // Both lifecycles are bundled into activeConverse so any user speech
+  // can tear down both at once via abort().
+  function executeConverse(call: ToolCall, instruction: string) {
+    activeConverse?.abort(); // safety: close any previous
+    data.commitUserMessage(instruction);
+
+    // Unfreeze the relay model immediately — the TTS session handles audio separately
+    respond(call, { result: 'done' });
+
+    let aborted = false;
+    let claudeDone = false;
+    let stopKeywords: (() => void) | null = null;
+    let stopPermissionVoice: (() => void) | null = null;
+    let openPermissions = 0;
+
+    const abort = () => {
+      if (aborted) return;
+      aborted = true;
+      converseApi.abort();
+      tts.interrupt();
+      stopKeywords?.();
+      stopPermissionVoice?.();
+      data.clearPermissions();
+      if (!claudeDone) data.finishTool();
+      activeConverse = null;
+      deps.onSettled?.();
+    };
+    activeConverse = { abort };
+
+    const stopMap: Record<string, () => void> = {};
+    for (const w of STOP_WORDS) stopMap[w] = () => abort();
+    stopKeywords = startKeywordListener(stopMap, { tag: 'stop' });
+
+    // One SpeechRecognition at a time: the stop listener is parked
+    // while permission prompts are open, and resumed once all are answered.
+    const listenForPermission = () => {
+      stopPermissionVoice = startVoicePermission((d) => data.answerPermission(d));
+    };
+    const onPermissionResolved = () => {
+      openPermissions--;
+      stopPermissionVoice?.();
+      stopPermissionVoice = null;
+      if (aborted) return;
+      if (openPermissions > 0) {
+        listenForPermission();
+      } else if (!claudeDone) {
+        stopKeywords = startKeywordListener(stopMap, { tag: 'stop' });
+      }
+    };
+
+    converseApi.stream(instruction, {
+      onChunk(text) {
+        if (aborted) return;
+        data.appendTool(text);
+        tts.send(text);
+      },
+      onBlock(block) {
+        if (aborted) return;
+        data.appendBlock(block);
+      },
+      onSubagentBlock(parentToolUseId, block) {
+        if (aborted) return;
+        data.appendSubagentBlock(parentToolUseId, block);
+      },
+      onSubagentDone(_toolUseId, description) {
+        if (aborted) return;
+        tts.send(` Subagent finished${description ? `: ${description}` : ''}. `);
+      },
+      onToolStart(id, name) {
+        if (aborted) return;
+        data.startToolCall(id, name);
+      },
+      onToolInput(id, partialJson) {
+        if (aborted) return;
+        data.appendToolInput(id, partialJson);
+      },
+      onToolEnd(id) {
+        if (aborted) return;
+        data.endToolCall(id);
+      },
+      onPermissionRequest(request) {
+        if (aborted) return;
+        tts.send(` Claude wants permission: ${toolUseLabel(request.tool_name, request.input)}. Allow, deny, or always allow? `);
+        if (++openPermissions === 1) {
+          stopKeywords?.();
+          stopKeywords = null;
+          listenForPermission();
+        }
+        data.holdForPermission(request, onPermissionResolved);
+      },
+      onPermissionResolved(requestId) {
+        data.dropPermission(requestId);
+      },
+      onLimit(breach) {
+        if (aborted) return;
+        tts.send(` ${breach.message} `);
+        data.pushError(breach.message);
+      },
+      onDone(cost) {
+        if (aborted) return;
+        claudeDone = true;
+        data.recordCost(cost);
+        stopPermissionVoice?.();
+        data.clearPermissions();
+        tts.finish();
+        data.finishTool();
+        // activeConverse stays alive — the TTS session may still be draining audio
+        deps.onSettled?.();
+      },
+      onError(msg) {
+        if (aborted) return;
+        abort();
+        data.pushError(msg);
+      },
+    });
+  }
+
+  // Hold for approval with voice + UI. Starts voice listener,
+  // gates mic audio away from the frozen model, cleans up on resolve.
+  function holdWithVoice(
+    call: ToolCall,
+    approvalPayload: Parameters<typeof data.holdForApproval>[0],
+    stopReadback: () => void,
+  ) {
+    approvalPending = true;
+    let resolved = false;
+    let stopVoice: (() => void) | null = null;
+
+    const onAccept = (approved: string) => {
+      if (resolved) return;
+      resolved = true;
+      stopVoice?.();
+      stopReadback();
+      approvalPending = false;
+      executeConverse(call, approved);
+    };
+    const onCancel = () => {
+      if (resolved) return;
+      resolved = true;
+      stopVoice?.();
+      stopReadback();
+      approvalPending = false;
+      // Unfreezes the relay model without executing
+      respond(call, { status: 'rejected' });
+      deps.onSettled?.();
+    };
+
+    // Voice triggers same store methods the UI buttons use.
+    stopVoice = startVoiceApproval(
+      () => data.approve(),
+      () => data.reject(),
+    );
+
+    data.holdForApproval(approvalPayload, onAccept, onCancel);
+  }
+
+  return {
+    handleToolCalls,
+    interrupt() {
+      activeConverse?.abort();
+      data.commitTurn();
+    },
+    get approvalPending() { return approvalPending; },
+    close() {
+      activeConverse?.abort();
+    },
+  };
+}
@@ -0,0 +1,39 @@
+/**
+ * CONNECTION — two-note cues for the voice socket dropping and coming back.
+ *
+ * Same Hann-windowed sine as the tap, stretched to 60ms notes so they read
+ * as tones rather than clicks. Lost falls a fourth (520→390Hz), restored
+ * rises by the same interval, so the pair is recognisable without looking
+ * at the screen. Quieter than speech; they mark state, not demand action.
+ */
+function playNotes(ctx: AudioContext, freqs: number[], destination?: AudioNode): void {
+  const dest = destination ?? ctx.destination;
+  const sampleRate = ctx.sampleRate;
+  const noteDur = 0.06;
+  const gap = 0.04;
+  const noteSamples = Math.ceil(noteDur * sampleRate);
+  const stepSamples = Math.ceil((noteDur + gap) * sampleRate);
+
+  const buffer = ctx.createBuffer(1, stepSamples * freqs.length, sampleRate);
+  const data = buffer.getChannelData(0);
+
+  freqs.forEach((freq, n) => {
+    for (let i = 0; i < noteSamples; i++) {
+      const env = 0.12 * Math.sin((Math.PI * i) / noteSamples) ** 2;
+      data[n * stepSamples + i] = env * Math.sin((2 * Math.PI * freq * i) / sampleRate);
+    }
+  });
+
+  const src = ctx.createBufferSource();
+  src.buffer = buffer;
+  src.connect(dest);
+  src.start(ctx.currentTime);
+}
+
+export function playConnectionLost(ctx: AudioContext, destination?: AudioNode): void {
+  playNotes(ctx, [520, 390], destination);
+}
+
+export function playConnectionRestored(ctx: AudioContext, destination?: AudioNode): void {
+  playNotes(ctx, [390, 520], destination);
+}
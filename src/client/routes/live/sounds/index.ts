@@ -1,2 +1,3 @@
 export { playTap } from './tap';
 export { playPulse, type PulseHandle } from './pulse';
+export { playConnectionLost, playConnectionRestored } from './connection';
@@ -0,0 +1,77 @@
+/**
+ * StreamingTTS on the browser's speechSynthesis — no socket, no API key.
+ * The output half of the browser voice provider (browser-voice.ts).
+ *
+ * Sentence-buffer flushes are queued as utterances; speechSynthesis plays
+ * them in order. `onIdle` fires when the last queued utterance ends, and
+ * `speaking` says whether one is still queued, so the provider knows when
+ * it can listen again without hearing itself.
+ */
+
+import { createSentenceBuffer } from './buffer';
+import type { StreamingTTS } from './types';
+
+// Log styles
+const GREEN_BADGE = 'background:#059669;color:white;font-weight:bold;padding:1px 6px;border-radius:3px';
+const DIM = 'color:#9ca3af';
+
+export function openSpeechTTS(
+  isOutputMuted: () => boolean,
+  onFlush?: (text: string) => void,
+  onIdle?: () => void,
+): StreamingTTS & { readonly speaking: boolean } {
+  let closed = false;
+  let muted = false;
+  let generation = 0; // bumped on interrupt — ends of cancelled utterances are ignored
+  let pending = 0;
+
+  function speak(text: string) {
+    if (closed || muted || isOutputMuted()) return;
+    const gen = generation;
+    const utterance = new SpeechSynthesisUtterance(text);
+    const done = () => {
+      if (gen !== generation) return;
+      pending = Math.max(0, pending - 1);
+      if (pending === 0) onIdle?.();
+    };
+    utterance.onend = done;
+    utterance.onerror = done;
+    pending++;
+    console.log(`%c TTS %c ← [${pending}] ${text}`, GREEN_BADGE, DIM);
+    speechSynthesis.speak(utterance);
+  }
+
+  const sentenceBuf = createSentenceBuffer((text) => { speak(text); onFlush?.(text); });
+
+  function cancel() {
+    generation++;
+    pending = 0;
+    sentenceBuf.clear();
+    speechSynthesis.cancel();
+  }
+
+  return {
+    get speaking() { return pending > 0; },
+    send(text: string) {
+      if (closed) return;
+      muted = false;
+      sentenceBuf.push(text);
+    },
+    finish() {
+      if (closed) return;
+      sentenceBuf.flush();
+    },
+    interrupt() {
+      if (closed) return;
+      muted = true;
+      cancel();
+      console.log(`%c TTS %c interrupted — muted`, GREEN_BADGE, DIM);
+    },
+    close() {
+      if (closed) return;
+      closed = true;
+      muted = true;
+      cancel();
+    },
+  };
+}
@@ -8,7 +8,7 @@
  * - voiceLog: VoiceEvent[] — user/Gemini speech (ephemeral, append-only)
  */
 
-import { connectGemini } from '../gemini';
+import { VOICE_PROVIDERS, type VoiceProvider, type VoiceProviderId } from '../providers';
 import type {
   AudioPort,
   AudioSource,
@@ -16,21 +16,30 @@ import type {
   ConverseApi,
   InteractionMode,
   LiveBackend,
+  LiveClient,
   Message,
   PendingApproval,
   PendingTool,
+  PermissionDecision,
+  PermissionRequestInfo,
+  SessionUsage,
   Status,
+  StreamCallbacks,
+  ToolHandlers,
   VoiceEvent,
 } from '../types';
 
 interface DataStoreDeps {
   audio: AudioPort;
   api: ConverseApi;
-  getApiKey: () => string | null;
+  getProvider: () => VoiceProviderId;
+  getApiKey: (provider: VoiceProviderId) => string | null;
   getMode: () => InteractionMode;
   getInputMuted: () => boolean;
   getOutputMuted: () => boolean;
   readbackInstruction: (text: string) => () => void;
+  toolHandlers?: ToolHandlers;
+  createLiveClient?: (apiKey: string) => LiveClient;
 }
 
 export function createDataStore(deps: DataStoreDeps) {
@@ -46,9 +55,15 @@ export function createDataStore(deps: DataStoreDeps) {
   let pendingApproval = $state<PendingApproval | null>(null);
   let pendingExecute: ((instruction: string) => void) | null = null;
   let pendingCancel: (() => void) | null = null;
+  // Tool-permission prompts from Claude, answered in arrival order
+  let permissionQueue = $state<PermissionRequestInfo[]>([]);
+  const permissionCallbacks = new Map<string, (decision: PermissionDecision) => void>();
+  // Running total for the open session: reported usage plus runs since
+  let sessionCost = $state(0);
 
-  // --- Toast (auto-clearing error display) ---
+  // --- Toast (auto-clearing error or status display) ---
   let toast = $state('');
+  let toastLevel = $state<'error' | 'info'>('error');
   let toastTimer: ReturnType<typeof setTimeout> | undefined;
 
   // --- I/O handles (not reactive, not exposed) ---
@@ -62,7 +77,7 @@ export function createDataStore(deps: DataStoreDeps) {
   }
 
   function startTool(name: string, args: Record<string, unknown>) {
-    pendingTool = { name, args, text: '', blocks: [], streaming: true };
+    pendingTool = { name, args, text: '', blocks: [], toolCalls: [], streaming: true };
     awaitingToolDone = false;
   }
 
@@ -85,9 +100,30 @@ export function createDataStore(deps: DataStoreDeps) {
     if (pendingTool) pendingTool.blocks.push(block);
   }
 
+  function appendSubagentBlock(parentToolUseId: string, block: ContentBlock) {
+    if (!pendingTool) return;
+    pendingTool.subagents ??= {};
+    (pendingTool.subagents[parentToolUseId] ??= []).push(block);
+  }
+
+  function startToolCall(id: string, name: string) {
+    if (pendingTool) pendingTool.toolCalls.push({ id, name, partialInput: '', done: false });
+  }
+
+  function appendToolInput(id: string, partialJson: string) {
+    const call = pendingTool?.toolCalls.find((c) => c.id === id);
+    if (call) call.partialInput += partialJson;
+  }
+
+  function endToolCall(id: string) {
+    const call = pendingTool?.toolCalls.find((c) => c.id === id);
+    if (call) call.done = true;
+  }
+
   function finishTool() {
     if (!pendingTool) return;
     pendingTool.streaming = false;
+    for (const call of pendingTool.toolCalls) call.done = true;
     if (awaitingToolDone) {
       doCommitAssistant();
       awaitingToolDone = false;
@@ -123,25 +159,36 @@ export function createDataStore(deps: DataStoreDeps) {
     if (!tool) return;
 
     // User message already pushed by commitUserMessage() at converse start
+    const cost = tool.costUsd !== undefined && { cost_usd: tool.costUsd };
     if (tool.blocks.length > 0) {
-      messages.push({ role: 'assistant', content: tool.blocks });
+      messages.push({ role: 'assistant', content: tool.blocks, ...cost });
     } else if (tool.text) {
       messages.push({
         role: 'assistant',
         content: [{ type: 'text', text: tool.text }],
+        ...cost,
       });
     }
 
     pendingTool = null;
   }
 
-  function pushError(text: string) {
-    voiceLog.push({ role: 'gemini', text, ts: Date.now() });
+  function showToast(text: string, level: 'error' | 'info') {
     clearTimeout(toastTimer);
     toast = text;
+    toastLevel = level;
     toastTimer = setTimeout(() => { toast = ''; }, 4000);
   }
 
+  function pushError(text: string) {
+    voiceLog.push({ role: 'gemini', text, ts: Date.now() });
+    showToast(text, 'error');
+  }
+
+  function notify(text: string) {
+    showToast(text, 'info');
+  }
+
   function setStatus(s: Status) {
     status = s;
   }
@@ -174,20 +221,77 @@ export function createDataStore(deps: DataStoreDeps) {
     finishTool();
   }
 
-  function loadHistory(msgs: Message[], sessionId: string) {
+  function holdForPermission(
+    request: PermissionRequestInfo,
+    onResolved?: (decision: PermissionDecision) => void,
+  ) {
+    permissionQueue.push(request);
+    if (onResolved) permissionCallbacks.set(request.id, onResolved);
+  }
+
+  function answerPermission(decision: PermissionDecision) {
+    const request = permissionQueue[0];
+    if (!request) return;
+    permissionQueue = permissionQueue.slice(1);
+    void api.respondPermission(request.id, decision);
+    const cb = permissionCallbacks.get(request.id);
+    permissionCallbacks.delete(request.id);
+    cb?.(decision);
+  }
+
+  function dropPermission(requestId: string) {
+    if (!permissionQueue.some((r) => r.id === requestId)) return;
+    permissionQueue = permissionQueue.filter((r) => r.id !== requestId);
+    const cb = permissionCallbacks.get(requestId);
+    permissionCallbacks.delete(requestId);
+    cb?.('deny');
+  }
+
+  /** Drop unanswered prompts — the server denies them when the stream closes. */
+  function clearPermissions() {
+    permissionQueue = [];
+    permissionCallbacks.clear();
+  }
+
+  function recordCost(costUsd: number | null) {
+    if (costUsd === null) return;
+    sessionCost += costUsd;
+    if (pendingTool) pendingTool.costUsd = costUsd;
+  }
+
+  /** `leafUuid` set = a non-active branch: the next instruction forks from it. */
+  function loadHistory(msgs: Message[], sessionId: string, leafUuid: string | null = null) {
     messages = msgs;
+    sessionCost = 0;
     api.sessionId = sessionId;
-    api.leafUuid = null;
+    api.leafUuid = leafUuid;
+    api.rewindCode = false;
   }
 
-  async function sendText(text: string) {
-    const trimmed = text.trim();
-    if (!trimmed) return;
-    commitUserMessage(trimmed);
-    startTool('text', {});
-    awaitingToolDone = true;
+  /** Put per-turn costs from GET /api/sessions/:id/usage on the loaded history. */
+  function applyUsage(usage: SessionUsage) {
+    sessionCost = usage.total.cost_usd;
+    const turnCost = new Map(usage.turns.map((t) => [t.uuid, t.cost_usd]));
+    let cost: number | undefined;
+    let lastAssistant = -1;
+    const flush = () => {
+      if (cost !== undefined && lastAssistant >= 0) messages[lastAssistant].cost_usd = cost;
+    };
+    messages.forEach((m, i) => {
+      if (m.role === 'assistant') {
+        lastAssistant = i;
+      } else if (m.uuid && turnCost.has(m.uuid)) {
+        flush();
+        cost = turnCost.get(m.uuid);
+        lastAssistant = -1;
+      }
+    });
+    flush();
+  }
 
-    api.stream(trimmed, {
+  /** Callbacks for a text-mode run — shared by sendText and resumeRun. */
+  function textStreamCallbacks(): StreamCallbacks {
+    return {
       onChunk(chunk) {
         if (!pendingTool) return;
         appendTool(chunk);
@@ -196,20 +300,74 @@ export function createDataStore(deps: DataStoreDeps) {
         if (!pendingTool) return;
         appendBlock(block);
       },
-      onDone() {
+      onSubagentBlock(parentToolUseId, block) {
+        appendSubagentBlock(parentToolUseId, block);
+      },
+      onToolStart(id, name) {
+        startToolCall(id, name);
+      },
+      onToolInput(id, partialJson) {
+        appendToolInput(id, partialJson);
+      },
+      onToolEnd(id) {
+        endToolCall(id);
+      },
+      onPermissionRequest(request) {
+        holdForPermission(request);
+      },
+      onPermissionResolved(requestId) {
+        dropPermission(requestId);
+      },
+      onLimit(breach) {
+        pushError(breach.message);
+      },
+      onDone(cost) {
+        clearPermissions();
+        recordCost(cost);
         if (!pendingTool) return;
         finishTool();
       },
       onError(msg) {
+        clearPermissions();
         if (!pendingTool) return;
         finishTool();
         pushError(msg);
       },
-    });
+    };
+  }
+
+  async function sendText(text: string) {
+    const trimmed = text.trim();
+    if (!trimmed) return;
+    commitUserMessage(trimmed);
+    startTool('text', {});
+    awaitingToolDone = true;
+
+    api.stream(trimmed, textStreamCallbacks());
+  }
+
+  /** Re-attach to a server-side run that outlived the previous page. */
+  function resumeRun(runId: string, instruction: string) {
+    if (pendingTool) return;
+    // The JSONL already holds the instruction plus whatever the run wrote so far;
+    // the replay re-streams the whole response, so cut back to the instruction.
+    let idx = messages.length - 1;
+    while (idx >= 0 && !(messages[idx].role === 'user' && messages[idx].content === instruction)) idx--;
+    if (idx >= 0) {
+      messages = messages.slice(0, idx + 1);
+    } else {
+      commitUserMessage(instruction);
+    }
+    startTool('text', {});
+    awaitingToolDone = true;
+
+    api.resume(runId, textStreamCallbacks());
   }
 
-  async function editMessage(messageIndex: number) {
+  /** `rewindCode`: the fork also restores the files Claude edited after the kept messages. */
+  async function editMessage(messageIndex: number, rewindCode = false) {
     api.abort();
+    clearPermissions();
     pendingTool = null;
     pendingApproval = null;
     pendingCancel?.();
@@ -225,6 +383,7 @@ export function createDataStore(deps: DataStoreDeps) {
       if (!leaf?.uuid) return;
       messages = messages.slice(0, messageIndex);
       api.leafUuid = leaf.uuid;
+      api.rewindCode = rewindCode;
     }
 
     await start();
@@ -236,24 +395,36 @@ export function createDataStore(deps: DataStoreDeps) {
     startTool,
     appendTool,
     appendBlock,
+    appendSubagentBlock,
+    startToolCall,
+    appendToolInput,
+    endToolCall,
     finishTool,
     commitTurn,
     pushError,
+    notify,
     setStatus,
     holdForApproval,
     approve,
     reject,
+    holdForPermission,
+    answerPermission,
+    dropPermission,
+    clearPermissions,
+    recordCost,
   };
 
   // --- Lifecycle: Live mode ---
 
   async function start() {
-    const apiKey = deps.getApiKey();
-    if (!apiKey) {
-      pushError('API key not set. Click "API Key" to configure.');
+    const id = deps.getProvider();
+    const provider: VoiceProvider = VOICE_PROVIDERS[id];
+    const apiKey = provider.keyless ? '' : deps.getApiKey(id);
+    if (apiKey === null) {
+      pushError(`${provider.label} API key not set. Add it to .env, or pick "${VOICE_PROVIDERS.browser.label}" under Settings → Voice Provider.`);
       return;
     }
-    backend = await connectGemini({
+    backend = await provider.connect({
       data: dataMethods,
       converseApi: api,
       tag: 'live',
@@ -261,6 +432,8 @@ export function createDataStore(deps: DataStoreDeps) {
       getMode: deps.getMode,
       getOutputMuted: deps.getOutputMuted,
       readbackInstruction: deps.readbackInstruction,
+      toolHandlers: deps.toolHandlers,
+      createLiveClient: deps.createLiveClient,
     });
     if (!backend) return;
 
@@ -282,6 +455,7 @@ export function createDataStore(deps: DataStoreDeps) {
     if (pendingTool?.streaming) pendingTool.streaming = false;
     commitTurn();
     api.abort();
+    clearPermissions();
     mic?.stop();
     mic = null;
     backend?.close();
@@ -293,19 +467,25 @@ export function createDataStore(deps: DataStoreDeps) {
 
   return {
     get toast() { return toast; },
+    get toastLevel() { return toastLevel; },
     get status() { return status; },
     get messages() { return messages; },
     get voiceLog() { return voiceLog; },
     get pendingInput() { return pendingInput; },
     get pendingTool() { return pendingTool; },
     get pendingApproval() { return pendingApproval; },
+    get pendingPermission() { return permissionQueue[0] ?? null; },
+    get sessionCost() { return sessionCost; },
     get claudeSessionId() { return api.sessionId; },
     setClaudeSession(id: string | null) { api.sessionId = id; },
     loadHistory,
+    applyUsage,
     editMessage,
     sendText,
+    resumeRun,
     approve,
     reject,
+    answerPermission,
     start,
     stop,
   };
@@ -5,8 +5,9 @@
  * Grows as UI complexity grows.
  */
 
-import type { InteractionMode } from '../types';
+import type { InteractionMode, RunLimits } from '../types';
 import { DEFAULT_MODEL, DEFAULT_PERMISSION_MODE, DEFAULT_SYSTEM_PROMPT } from '../defaults';
+import { DEFAULT_VOICE_PROVIDER, VOICE_PROVIDERS, type VoiceProviderId } from '../providers';
 
 const STORAGE_KEY = 'duck_talk:ui';
 const OLD_STORAGE_KEY = 'claude-talks:ui';
@@ -17,6 +18,10 @@ interface Persisted {
   model: string;
   systemPrompt: string;
   permissionMode: string;
+  project: string | null; // slug; null = the server's cwd
+  limits: RunLimits; // per run; the server's own limits still apply
+  rewindCode: boolean; // editing a message also rewinds the files, after a preview
+  voiceProvider: VoiceProviderId;
 }
 
 const DEFAULTS: Persisted = {
@@ -25,6 +30,10 @@ const DEFAULTS: Persisted = {
   model: DEFAULT_MODEL,
   systemPrompt: DEFAULT_SYSTEM_PROMPT,
   permissionMode: DEFAULT_PERMISSION_MODE,
+  project: null,
+  limits: {},
+  rewindCode: false,
+  voiceProvider: DEFAULT_VOICE_PROVIDER,
 };
 
 function load(): Persisted {
@@ -45,6 +54,7 @@ function load(): Persisted {
         parsed.mode = parsed.learningMode ? 'review' : 'direct';
       }
       if (parsed.mode === 'correct') parsed.mode = 'review';
+      if (!(parsed.voiceProvider in VOICE_PROVIDERS)) delete parsed.voiceProvider;
       return { ...DEFAULTS, ...parsed };
     }
   } catch { /* corrupted — fall through to default */ }
@@ -62,9 +72,13 @@ export function createUIStore() {
   let model = $state(persisted.model);
   let systemPrompt = $state(persisted.systemPrompt);
   let permissionMode = $state(persisted.permissionMode);
+  let project = $state(persisted.project);
+  let limits = $state<RunLimits>(persisted.limits);
+  let rewindCode = $state(persisted.rewindCode);
+  let voiceProvider = $state<VoiceProviderId>(persisted.voiceProvider);
 
   function persist() {
-    save({ readbackEnabled, mode, model, systemPrompt, permissionMode });
+    save({ readbackEnabled, mode, model, systemPrompt, permissionMode, project, limits, rewindCode, voiceProvider });
   }
 
   function setMode(m: InteractionMode) {
@@ -85,8 +99,25 @@ export function createUIStore() {
     get permissionMode() { return permissionMode; },
     setPermissionMode(m: string) { permissionMode = m; persist(); },
     cyclePermissionMode() {
-      permissionMode = permissionMode === 'plan' ? 'acceptEdits' : 'plan';
+      permissionMode = permissionMode === 'plan' ? 'default'
+        : permissionMode === 'default' ? 'acceptEdits'
+        : 'plan';
       persist();
     },
+    get project() { return project; },
+    setProject(slug: string | null) { project = slug; persist(); },
+    get limits() { return limits; },
+    /** Set or clear (undefined) one limit. */
+    setLimit(key: keyof RunLimits, value: number | undefined) {
+      const next = { ...limits };
+      if (value !== undefined && value > 0) next[key] = value;
+      else delete next[key];
+      limits = next;
+      persist();
+    },
+    get rewindCode() { return rewindCode; },
+    setRewindCode(v: boolean) { rewindCode = v; persist(); },
+    get voiceProvider() { return voiceProvider; },
+    setVoiceProvider(p: VoiceProviderId) { voiceProvider = p; persist(); },
   };
 }
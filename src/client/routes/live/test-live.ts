@@ -0,0 +1,240 @@
+/**
+ * Fakes for the live tests (`npm test`) — a scriptable Gemini Live client,
+ * the data store and converse API ports, and the browser globals the
+ * providers touch. Not imported by production code.
+ *
+ *   const live = createFakeLive();
+ *   openTTSSession(live.client, () => false);
+ *   await settle();
+ *   live.session.receive({ serverContent: { turnComplete: true } });
+ *   live.session.drop(1006);
+ */
+
+import type { LiveConnectParameters, LiveServerMessage } from '@google/genai';
+import type {
+  ConverseApi,
+  DataStoreMethods,
+  LiveClient,
+  LiveSession,
+  PendingApproval,
+  StreamCallbacks,
+} from './types';
+
+// --- Live client ---
+
+/** A server message as plain data — LiveServerMessage is a class with getters. */
+export type ServerMessage = Omit<LiveServerMessage, 'text' | 'data'>;
+
+export interface SentMessage {
+  kind: 'clientContent' | 'realtimeInput' | 'toolResponse';
+  payload: unknown;
+}
+
+export interface FakeSession {
+  readonly params: LiveConnectParameters;
+  readonly sent: SentMessage[];
+  readonly closed: boolean;
+  /** Deliver a server message, as the socket would. */
+  receive(msg: ServerMessage): void;
+  /** The server closed the socket. */
+  drop(code?: number, reason?: string): void;
+  /** Texts sent with sendClientContent, in order. */
+  texts(): string[];
+}
+
+export interface FakeLive {
+  client: LiveClient;
+  /** Every session opened, oldest first. */
+  readonly sessions: FakeSession[];
+  /** The latest session. */
+  readonly session: FakeSession;
+  /** connect() calls so far, failed ones included. */
+  readonly attempts: number;
+  /** Make the next `n` connect() calls reject. */
+  failNext(n: number): void;
+}
+
+export function createFakeLive(): FakeLive {
+  const sessions: FakeSession[] = [];
+  let attempts = 0;
+  let failures = 0;
+
+  const client: LiveClient = {
+    async connect(params) {
+      attempts++;
+      if (failures > 0) {
+        failures--;
+        throw new Error('connect refused');
+      }
+      const session = createSession(params);
+      sessions.push(session);
+      params.callbacks.onopen?.();
+      return session;
+    },
+  };
+
+  return {
+    client,
+    sessions,
+    get session() {
+      const last = sessions[sessions.length - 1];
+      if (!last) throw new Error('no session opened yet');
+      return last;
+    },
+    get attempts() { return attempts; },
+    failNext(n) { failures = n; },
+  };
+}
+
+function createSession(params: LiveConnectParameters): FakeSession & LiveSession {
+  const sent: SentMessage[] = [];
+  let closed = false;
+
+  function close(code: number, reason: string) {
+    if (closed) return;
+    closed = true;
+    queueMicrotask(() => params.callbacks.onclose?.({ code, reason } as CloseEvent));
+  }
+
+  return {
+    params,
+    sent,
+    get closed() { return closed; },
+    receive(msg) {
+      if (!closed) params.callbacks.onmessage(msg as LiveServerMessage);
+    },
+    drop(code = 1006, reason = '') {
+      close(code, reason);
+    },
+    texts() {
+      return sent
+        .filter((m) => m.kind === 'clientContent')
+        .flatMap((m) => (m.payload as { turns: { parts: { text?: string }[] }[] }).turns)
+        .flatMap((t) => t.parts.map((p) => p.text ?? ''));
+    },
+    // The Session surface the providers call
+    sendClientContent(payload: unknown) { sent.push({ kind: 'clientContent', payload }); },
+    sendRealtimeInput(payload: unknown) { sent.push({ kind: 'realtimeInput', payload }); },
+    sendToolResponse(payload: unknown) { sent.push({ kind: 'toolResponse', payload }); },
+    close() { close(1000, ''); },
+  };
+}
+
+// --- Data store ---
+
+export interface FakeData extends DataStoreMethods {
+  /** Arguments of each call to `method`, in order. */
+  calls(method: keyof DataStoreMethods): unknown[][];
+}
+
+const RECORDED = [
+  'appendInput', 'startTool', 'appendTool', 'appendBlock', 'appendSubagentBlock', 'startToolCall',
+  'appendToolInput', 'endToolCall', 'finishTool', 'commitUserMessage', 'commitTurn', 'pushError',
+  'notify', 'setStatus', 'holdForPermission', 'answerPermission', 'dropPermission', 'clearPermissions',
+  'recordCost',
+] as const satisfies readonly (keyof DataStoreMethods)[];
+
+/** Records every call; approve() and reject() resolve the held approval like the UI buttons. */
+export function createFakeData(): FakeData {
+  const log: { method: keyof DataStoreMethods; args: unknown[] }[] = [];
+  let held: { approval: PendingApproval; execute: (instruction: string) => void; cancel?: () => void } | null = null;
+  const record = (method: keyof DataStoreMethods) => (...args: unknown[]) => {
+    log.push({ method, args });
+  };
+
+  const recorded = Object.fromEntries(RECORDED.map((m) => [m, record(m)])) as Pick<
+    DataStoreMethods,
+    (typeof RECORDED)[number]
+  >;
+  return {
+    ...recorded,
+    holdForApproval(approval, execute, cancel) {
+      record('holdForApproval')(approval);
+      held = { approval, execute, cancel };
+    },
+    approve(editedText) {
+      record('approve')(editedText);
+      const h = held;
+      held = null;
+      h?.execute(editedText ?? h.approval.instruction);
+    },
+    reject() {
+      record('reject')();
+      const h = held;
+      held = null;
+      h?.cancel?.();
+    },
+    calls(method) {
+      return log.filter((c) => c.method === method).map((c) => c.args);
+    },
+  };
+}
+
+// --- Converse API ---
+
+export interface FakeConverse extends ConverseApi {
+  /** Instructions streamed, in order. */
+  readonly instructions: string[];
+  /** Callbacks of the latest stream — drive Claude's reply through these. */
+  readonly callbacks: StreamCallbacks;
+  readonly aborts: number;
+}
+
+export function createFakeConverse(): FakeConverse {
+  const instructions: string[] = [];
+  let callbacks: StreamCallbacks | null = null;
+  let aborts = 0;
+  return {
+    sessionId: null,
+    sessionStart: 0,
+    leafUuid: null,
+    rewindCode: false,
+    runId: null,
+    instructions,
+    get callbacks() {
+      if (!callbacks) throw new Error('nothing streamed yet');
+      return callbacks;
+    },
+    get aborts() { return aborts; },
+    async stream(instruction, cbs) {
+      instructions.push(instruction);
+      callbacks = cbs;
+    },
+    async resume() {},
+    async respondPermission() {},
+    abort() { aborts++; },
+  };
+}
+
+// --- Browser stand-ins ---
+
+/** Let pending promise callbacks and zero-delay work run. */
+export function settle(): Promise<void> {
+  return new Promise((resolve) => setImmediate(resolve));
+}
+
+/**
+ * A silent AudioContext, so createPlayer() works outside a browser.
+ * Returns how many chunks have been scheduled so far.
+ */
+export function stubAudio(): { readonly played: number } {
+  let played = 0;
+  class FakeAudioContext {
+    currentTime = 0;
+    state = 'running';
+    destination = {};
+    createBuffer(_channels: number, length: number, rate: number) {
+      const data = new Float32Array(length);
+      return { duration: length / rate, getChannelData: () => data };
+    }
+    createBufferSource() {
+      return { buffer: null, onended: null, connect() {}, start() { played++; }, stop() {} };
+    }
+    close() {
+      this.state = 'closed';
+      return Promise.resolve();
+    }
+  }
+  (globalThis as Record<string, unknown>)['AudioContext'] = FakeAudioContext;
+  return { get played() { return played; } };
+}
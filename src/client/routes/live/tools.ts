@@ -1,5 +1,6 @@
 import { Type } from '@google/genai';
-import type { Tool } from '@google/genai';
+import type { Schema, Tool } from '@google/genai';
+import type { ToolHandlers } from './types';
 
 // ── Gemini function declarations ──
 
@@ -22,15 +23,51 @@ export const TOOLS: Tool[] = [
         description: 'Stop the current Claude Code operation. Use when the user says stop, cancel, nevermind, or wants to abort current work.',
         parameters: { type: Type.OBJECT, properties: {} },
       },
+      {
+        name: 'switch_project',
+        description: 'Switch Claude Code to a different project (repository). Use when the user asks to open, work on, or switch to another repo by name.',
+        parameters: {
+          type: Type.OBJECT,
+          properties: {
+            name: { type: Type.STRING, description: 'The project name as the user said it, e.g. "duck talk"' },
+          },
+          required: ['name'],
+        },
+      },
     ],
   },
 ];
 
+// ── OpenAI Realtime function tools (same declarations, JSON Schema types) ──
+
+export const OPENAI_TOOLS = TOOLS.flatMap((t) => t.functionDeclarations ?? []).map((fd) => ({
+  type: 'function' as const,
+  name: fd.name!,
+  description: fd.description ?? '',
+  parameters: fd.parameters ? toJsonSchema(fd.parameters) : { type: 'object', properties: {} },
+}));
+
+function toJsonSchema(schema: Schema): Record<string, unknown> {
+  const out: Record<string, unknown> = { type: String(schema.type).toLowerCase() };
+  if (schema.description) out.description = schema.description;
+  if (schema.properties) {
+    out.properties = Object.fromEntries(
+      Object.entries(schema.properties).map(([k, v]) => [k, toJsonSchema(v)]),
+    );
+  }
+  if (schema.items) out.items = toJsonSchema(schema.items);
+  if (schema.required) out.required = schema.required;
+  return out;
+}
+
 // ── Dispatch (single entry point for store) ──
 
 export async function handleToolCall(
   name: string,
-  _args: Record<string, unknown>,
+  args: Record<string, unknown>,
+  handlers: ToolHandlers = {},
 ): Promise<Record<string, unknown>> {
+  const handler = handlers[name];
+  if (handler) return handler(args);
   return { error: `Unknown tool: ${name}` };
 }
@@ -0,0 +1,120 @@
+import assert from 'node:assert/strict';
+import { afterEach, beforeEach, mock, test } from 'node:test';
+import { MAX_RECONNECTS, backoffDelay } from './backoff';
+import { createFakeLive, settle, stubAudio } from './test-live';
+import { openTTSSession } from './tts-session';
+import type { ConnectionState } from './types';
+
+const SENTENCE = 'Claude finished the refactor and all checks pass.';
+
+beforeEach(() => {
+  stubAudio();
+  mock.timers.enable({ apis: ['setTimeout'] });
+  for (const method of ['log', 'warn', 'error'] as const) mock.method(console, method, () => {});
+});
+
+afterEach(() => {
+  mock.timers.reset();
+  mock.restoreAll();
+});
+
+async function advance(ms: number) {
+  await settle();
+  mock.timers.tick(ms);
+  await settle();
+}
+
+function open() {
+  const live = createFakeLive();
+  const states: ConnectionState[] = [];
+  const tts = openTTSSession(live.client, () => false, undefined, (s) => states.push(s));
+  return { live, states, tts };
+}
+
+test('backoff retries at once, then doubles up to 8s', () => {
+  const delays = Array.from({ length: MAX_RECONNECTS }, (_, n) => backoffDelay(n));
+  assert.deepEqual(delays, [0, 500, 1000, 2000, 4000, 8000, 8000]);
+});
+
+test('first connect backs off between failed attempts', async () => {
+  const { live, states, tts } = open();
+  live.failNext(2);
+  tts.send(SENTENCE);
+  await advance(0);
+  assert.equal(live.attempts, 1);
+  await advance(backoffDelay(1) - 1);
+  assert.equal(live.attempts, 1);
+  await advance(1);
+  assert.equal(live.attempts, 2);
+  await advance(backoffDelay(2));
+  assert.equal(live.attempts, 3);
+  assert.deepEqual(live.session.texts(), [`[READ]: ${SENTENCE}`]);
+  assert.deepEqual(states, []);
+});
+
+test('first connect reports failed after MAX_RECONNECTS attempts', async () => {
+  const { live, states } = open();
+  live.failNext(Infinity);
+  for (let n = 0; n < MAX_RECONNECTS; n++) await advance(backoffDelay(n));
+  assert.equal(live.attempts, MAX_RECONNECTS);
+  assert.deepEqual(states, ['failed']);
+  await advance(60_000);
+  assert.equal(live.attempts, MAX_RECONNECTS);
+});
+
+test('sentences flushed while down are read once reconnected', async () => {
+  const { live, states, tts } = open();
+  await advance(0);
+  const first = live.session;
+  first.receive({});
+  live.failNext(1);
+  first.drop();
+  await advance(0); // attempt 1 fails
+  tts.send(SENTENCE);
+  tts.finish();
+  assert.deepEqual(first.texts(), []);
+  await advance(backoffDelay(1));
+  assert.notEqual(live.session, first);
+  assert.deepEqual(live.session.texts(), [`[READ]: ${SENTENCE}`]);
+  assert.deepEqual(states, ['lost', 'restored']);
+});
+
+test('a goAway handover re-reads sentences the old session hadn\'t finished', async () => {
+  const { live, states, tts } = open();
+  await advance(0);
+  const first = live.session;
+  tts.send(SENTENCE);
+  assert.deepEqual(first.texts(), [`[READ]: ${SENTENCE}`]);
+  first.receive({ goAway: { timeLeft: '10s' } });
+  await advance(0);
+  assert.notEqual(live.session, first);
+  assert.ok(first.closed);
+  assert.deepEqual(live.session.texts(), [`[READ]: ${SENTENCE}`]);
+  assert.deepEqual(states, []);
+});
+
+test('finished sentences aren\'t read again after a reconnect', async () => {
+  const { live, tts } = open();
+  await advance(0);
+  const first = live.session;
+  tts.send(SENTENCE);
+  first.receive({ serverContent: { turnComplete: true } });
+  first.drop();
+  await advance(0);
+  assert.notEqual(live.session, first);
+  assert.deepEqual(live.session.texts(), []);
+});
+
+test('gives up after MAX_RECONNECTS attempts without hearing from the server', async () => {
+  const { live, states, tts } = open();
+  await advance(0);
+  live.session.receive({});
+  live.failNext(Infinity);
+  live.session.drop();
+  for (let n = 0; n < MAX_RECONNECTS; n++) await advance(backoffDelay(n));
+  assert.equal(live.attempts, 1 + MAX_RECONNECTS);
+  assert.deepEqual(states, ['lost', 'failed']);
+  tts.send(SENTENCE);
+  tts.finish();
+  assert.equal(live.sessions.length, 1);
+});
@@ -7,16 +7,21 @@
  * `interrupt()` stops playback between calls; `close()` is final teardown.
  *
  * Each sentence-buffer flush is sent directly to Gemini.
+ *
+ * Like the main session, it resumes from its latest handle on `goAway` or
+ * an unexpected close instead of dying with the server's time limit,
+ * backing off between attempts. Sentences flushed while it's down are
+ * queued and read once it's back; `onConnection` hears about drops.
+ * Audio still arriving on the old connection is dropped on the switch, so
+ * sentences it hadn't finished (no turnComplete yet) are queued again —
+ * one cut off mid-way is read from its start.
  */
 
-import {
-  GoogleGenAI,
-  Modality,
-  type Session,
-} from '@google/genai';
+import { Modality, type LiveServerMessage } from '@google/genai';
 import { createSentenceBuffer } from './buffer';
 import { createPlayer } from './audio';
-import type { StreamingTTS } from './types';
+import { MAX_RECONNECTS, backoffDelay, sleep } from './backoff';
+import type { ConnectionState, LiveClient, LiveSession, StreamingTTS } from './types';
 
 const TTS_MODEL = 'gemini-2.5-flash-native-audio-preview-12-2025';
 const TTS_PROMPT = 'You are a text-to-speech reader. Read aloud EXACTLY what the user sends, word for word. NEVER respond, answer questions, or add commentary. Just read the text out loud.';
@@ -25,25 +30,40 @@ const TTS_PROMPT = 'You are a text-to-speech reader. Read aloud EXACTLY what the
 const GREEN_BADGE = 'background:#059669;color:white;font-weight:bold;padding:1px 6px;border-radius:3px';
 const DIM = 'color:#9ca3af';
 
-export function openTTSSession(apiKey: string, isOutputMuted: () => boolean, onFlush?: (text: string) => void): StreamingTTS {
+export function openTTSSession(
+  live: LiveClient,
+  isOutputMuted: () => boolean,
+  onFlush?: (text: string) => void,
+  onConnection?: (state: ConnectionState) => void,
+): StreamingTTS {
   const player = createPlayer();
-  let session: Session | null = null;
+  let session: LiveSession | null = null;
   let closed = false;
+  let generation = 0; // bumped per connection — callbacks from a replaced one are ignored
+  let resumeHandle: string | undefined;
+  let reconnecting = false;
+  let failures = 0; // reconnect attempts since a connection last heard from the server
   let finishing = false;
   let muted = false;
-  let pendingSends = 0;
+  const unacked: string[] = []; // sent sentences awaiting their turnComplete, oldest first
   let firstSendT0 = 0;
   let ttftLogged = false;
-  const preConnectQueue: string[] = [];
+  const preConnectQueue: string[] = []; // raw chunks, before the first connection
+  const offlineQueue: string[] = []; // flushed sentences, while reconnecting
 
   function sendText(text: string) {
-    if (!session || closed) {
-      console.warn(`%c TTS %c dropped (session dead): ${text}`, GREEN_BADGE, DIM);
+    if (closed) {
+      console.warn(`%c TTS %c dropped (session closed): ${text}`, GREEN_BADGE, DIM);
+      return;
+    }
+    if (!session) {
+      offlineQueue.push(text);
+      console.log(`%c TTS %c queued while reconnecting (${offlineQueue.length}): ${text}`, GREEN_BADGE, DIM);
       return;
     }
     if (!firstSendT0) firstSendT0 = performance.now();
-    pendingSends++;
-    console.log(`%c TTS %c ← [${pendingSends}] ${text}`, GREEN_BADGE, DIM);
+    unacked.push(text);
+    console.log(`%c TTS %c ← [${unacked.length}] ${text}`, GREEN_BADGE, DIM);
     session.sendClientContent({
       turns: [{ role: 'user', parts: [{ text: `[READ]: ${text}` }] }],
       turnComplete: true,
@@ -52,58 +72,135 @@ export function openTTSSession(apiKey: string, isOutputMuted: () => boolean, onF
 
   const sentenceBuf = createSentenceBuffer((text) => { sendText(text); onFlush?.(text); });
 
-  // Connect async — buffer text until ready
-  const ai = new GoogleGenAI({ apiKey });
-  ai.live.connect({
-    model: TTS_MODEL,
-    config: {
-      responseModalities: [Modality.AUDIO],
-      systemInstruction: TTS_PROMPT,
-      outputAudioTranscription: {},
-    },
-    callbacks: {
-      onopen: () => {
-        console.log(`%c TTS %c connected`, GREEN_BADGE, DIM);
+  function openSession(): Promise<LiveSession> {
+    const gen = ++generation;
+    let heard = false;
+    return live.connect({
+      model: TTS_MODEL,
+      config: {
+        responseModalities: [Modality.AUDIO],
+        systemInstruction: TTS_PROMPT,
+        outputAudioTranscription: {},
+        sessionResumption: { handle: resumeHandle },
+        contextWindowCompression: { slidingWindow: {} },
       },
-      onmessage: (msg) => {
-        if (msg.serverContent?.modelTurn?.parts) {
-          for (const p of msg.serverContent.modelTurn.parts) {
-            if (p.inlineData?.data && !closed && !muted && !isOutputMuted()) {
-              if (!ttftLogged && firstSendT0) {
-                ttftLogged = true;
-                console.log(`%c TTS %c TTFT: ${Math.round(performance.now() - firstSendT0)}ms`, GREEN_BADGE, DIM);
-              }
-              player.play(p.inlineData.data);
-            }
+      callbacks: {
+        onopen: () => {
+          if (gen !== generation) return;
+          console.log(`%c TTS %c connected${resumeHandle ? ' — resumed' : ''}`, GREEN_BADGE, DIM);
+        },
+        onmessage: (msg) => {
+          if (gen !== generation) return;
+          if (!heard) {
+            heard = true;
+            failures = 0;
           }
+          handleMessage(msg);
+        },
+        onerror: (e) => {
+          if (gen !== generation) return;
+          console.error(`%c TTS %c error`, GREEN_BADGE, DIM, e);
+        },
+        onclose: (e: CloseEvent) => {
+          if (gen !== generation) return; // replaced by a reconnect, or closed
+          console.log(`%c TTS %c closed (code=${e.code} reason=${e.reason || 'none'})`, GREEN_BADGE, DIM);
+          void reconnect(e.reason || `code ${e.code}`);
+        },
+      },
+    });
+  }
+
+  /** Swap in a new connection; sentences the old one hadn't finished are read again. */
+  async function reconnect(reason: string) {
+    if (closed || reconnecting) return;
+    reconnecting = true;
+    const dropped = reason !== 'goAway';
+    console.log(`%c TTS %c reconnecting (${reason})`, GREEN_BADGE, DIM);
+    if (dropped) onConnection?.('lost');
+    const old = session;
+    session = null;
+    offlineQueue.unshift(...unacked.splice(0));
+    try {
+      if (await establish(reason) && dropped) onConnection?.('restored');
+    } finally {
+      old?.close();
+      reconnecting = false;
+    }
+  }
+
+  /**
+   * Connect, backing off between attempts, and send what queued up meanwhile.
+   * False if closed in the meantime, or on giving up — reported as 'failed'.
+   */
+  async function establish(reason: string): Promise<boolean> {
+    while (!closed) {
+      if (failures >= MAX_RECONNECTS) {
+        console.warn(`%c TTS %c giving up after ${failures} attempts (${reason})`, GREEN_BADGE, DIM);
+        closed = true;
+        generation++;
+        offlineQueue.length = 0;
+        preConnectQueue.length = 0;
+        onConnection?.('failed');
+        return false;
+      }
+      await sleep(backoffDelay(failures++));
+      if (closed) return false;
+      try {
+        const next = await openSession();
+        if (closed) {
+          next.close();
+          return false;
         }
-        if (msg.serverContent?.outputTranscription?.text) {
-          console.log(`%c TTS %c → ${msg.serverContent.outputTranscription.text}`, GREEN_BADGE, DIM);
-        }
-        if (msg.serverContent?.turnComplete) {
-          pendingSends = Math.max(0, pendingSends - 1);
-          console.log(`%c TTS %c turnComplete (pending: ${pendingSends})`, GREEN_BADGE, DIM);
-          if (finishing && pendingSends === 0) {
-            console.log(`%c TTS %c done — ready for next converse`, GREEN_BADGE, DIM);
-            finishing = false;
+        session = next;
+        flushQueue();
+        return true;
+      } catch (e) {
+        console.warn(`%c TTS %c connect attempt ${failures} failed`, GREEN_BADGE, DIM, e);
+      }
+    }
+    return false;
+  }
+
+  function handleMessage(msg: LiveServerMessage) {
+    if (msg.sessionResumptionUpdate?.resumable && msg.sessionResumptionUpdate.newHandle) {
+      resumeHandle = msg.sessionResumptionUpdate.newHandle;
+    }
+    if (msg.goAway) {
+      console.log(`%c TTS %c goAway — timeLeft: ${msg.goAway.timeLeft}`, GREEN_BADGE, DIM);
+      void reconnect('goAway');
+    }
+    if (msg.serverContent?.modelTurn?.parts) {
+      for (const p of msg.serverContent.modelTurn.parts) {
+        if (p.inlineData?.data && !closed && !muted && !isOutputMuted()) {
+          if (!ttftLogged && firstSendT0) {
+            ttftLogged = true;
+            console.log(`%c TTS %c TTFT: ${Math.round(performance.now() - firstSendT0)}ms`, GREEN_BADGE, DIM);
           }
+          player.play(p.inlineData.data);
         }
-      },
-      onerror: (e) => {
-        console.error(`%c TTS %c error`, GREEN_BADGE, DIM, e);
-      },
-      onclose: (e: CloseEvent) => {
-        closed = true;
-        session = null;
-        console.log(`%c TTS %c closed (code=${e.code} reason=${e.reason || 'none'})`, GREEN_BADGE, DIM);
-      },
-    },
-  }).then((s) => {
-    if (closed) { s.close(); return; }
-    session = s;
-    for (const text of preConnectQueue) sentenceBuf.push(text);
-    preConnectQueue.length = 0;
-  });
+      }
+    }
+    if (msg.serverContent?.outputTranscription?.text) {
+      console.log(`%c TTS %c → ${msg.serverContent.outputTranscription.text}`, GREEN_BADGE, DIM);
+    }
+    if (msg.serverContent?.turnComplete) {
+      unacked.shift();
+      console.log(`%c TTS %c turnComplete (pending: ${unacked.length})`, GREEN_BADGE, DIM);
+      if (finishing && unacked.length === 0) {
+        console.log(`%c TTS %c done — ready for next converse`, GREEN_BADGE, DIM);
+        finishing = false;
+      }
+    }
+  }
+
+  /** Text sent while (re)connecting goes out once the session is up. */
+  function flushQueue() {
+    for (const text of offlineQueue.splice(0)) sendText(text);
+    for (const text of preConnectQueue.splice(0)) sentenceBuf.push(text);
+  }
+
+  // Connect async — buffer text until ready
+  void establish('connect');
 
   return {
     send(text: string) {
@@ -113,7 +210,7 @@ export function openTTSSession(apiKey: string, isOutputMuted: () => boolean, onF
         firstSendT0 = 0;
         ttftLogged = false;
       }
-      if (!session) {
+      if (!session && !reconnecting) {
         preConnectQueue.push(text);
       } else {
         sentenceBuf.push(text);
@@ -122,7 +219,7 @@ export function openTTSSession(apiKey: string, isOutputMuted: () => boolean, onF
     finish() {
       if (closed) return;
       sentenceBuf.flush();
-      if (pendingSends === 0) {
+      if (unacked.length === 0 && offlineQueue.length === 0) {
         console.log(`%c TTS %c finish (nothing pending) — ready`, GREEN_BADGE, DIM);
         finishing = false;
       } else {
@@ -133,8 +230,9 @@ export function openTTSSession(apiKey: string, isOutputMuted: () => boolean, onF
       if (closed) return;
       muted = true;
       finishing = false;
-      pendingSends = 0;
+      unacked.length = 0;
       sentenceBuf.clear();
+      offlineQueue.length = 0;
       player.flush();
       console.log(`%c TTS %c interrupted — muted`, GREEN_BADGE, DIM);
     },
@@ -143,8 +241,9 @@ export function openTTSSession(apiKey: string, isOutputMuted: () => boolean, onF
       closed = true;
       muted = true;
       finishing = false;
-      pendingSends = 0;
+      unacked.length = 0;
       sentenceBuf.clear();
+      offlineQueue.length = 0;
       player.flush();
       player.stop();
       session?.close();
@@ -8,15 +8,46 @@
 export type {
   ContentBlock,
   Correction,
+  FileChange,
   InteractionMode,
+  LeafInfo,
+  LimitBreach,
   Message,
+  PathEntry,
   PendingApproval,
   PendingTool,
+  PermissionDecision,
+  PermissionRequestInfo,
+  ProjectInfo,
+  RewindPlan,
+  RunInfo,
+  RunLimits,
+  SearchResult,
+  SessionEvent,
+  SessionUsage,
+  StreamingToolCall,
   Status,
+  SubagentInfo,
+  TrashedSession,
+  TurnFiles,
   VoiceEvent,
 } from '../../lib/chat-types';
 
-import type { ContentBlock, PendingApproval, Status } from '../../lib/chat-types';
+import type {
+  LiveConnectParameters,
+  LiveSendClientContentParameters,
+  LiveSendRealtimeInputParameters,
+  LiveSendToolResponseParameters,
+} from '@google/genai';
+import type {
+  ContentBlock,
+  InteractionMode,
+  LimitBreach,
+  PendingApproval,
+  PermissionDecision,
+  PermissionRequestInfo,
+  Status,
+} from '../../lib/chat-types';
 
 // --- Port: Data store mutations ---
 // Plain interface so gemini.ts stays a regular .ts file (no rune imports).
@@ -26,10 +57,16 @@ export interface DataStoreMethods {
   startTool(name: string, args: Record<string, unknown>): void;
   appendTool(text: string): void;
   appendBlock(block: ContentBlock): void;
+  appendSubagentBlock(parentToolUseId: string, block: ContentBlock): void;
+  startToolCall(id: string, name: string): void;
+  appendToolInput(id: string, partialJson: string): void;
+  endToolCall(id: string): void;
   finishTool(): void;
   commitUserMessage(text: string): void;
   commitTurn(): void;
   pushError(text: string): void;
+  /** Transient status toast, e.g. a socket reconnecting. */
+  notify(text: string): void;
   setStatus(s: Status): void;
   holdForApproval(
     approval: PendingApproval,
@@ -38,10 +75,31 @@ export interface DataStoreMethods {
   ): void;
   approve(editedText?: string): void;
   reject(): void;
+  holdForPermission(
+    request: PermissionRequestInfo,
+    onResolved?: (decision: PermissionDecision) => void,
+  ): void;
+  answerPermission(decision: PermissionDecision): void;
+  /** A prompt was answered elsewhere (another tab, or replayed history). */
+  dropPermission(requestId: string): void;
+  clearPermissions(): void;
+  /** Cost of the run that just finished (null if the agent doesn't report one). */
+  recordCost(costUsd: number | null): void;
 }
 
+// --- Port: Page-level tool handlers ---
+// Tools that act on UI state (e.g. switch_project) are implemented by the page.
+
+export type ToolHandlers = Record<
+  string,
+  (args: Record<string, unknown>) => Promise<Record<string, unknown>>
+>;
+
 // --- Port: Streaming TTS ---
 
+/** Reported by a socket that dropped: reconnecting, back, or given up. */
+export type ConnectionState = 'lost' | 'restored' | 'failed';
+
 export interface StreamingTTS {
   send(text: string): void;
   finish(): void;
@@ -65,7 +123,7 @@ export interface AudioPort {
   startMic(onChunk: (base64: string) => void): Promise<AudioSource>;
 }
 
-// --- Port: Gemini session backend ---
+// --- Port: Voice session backend ---
 
 export interface RealtimeInput {
   audio?: { data: string; mimeType: string };
@@ -86,20 +144,62 @@ export interface LiveBackend {
   close(): void;
 }
 
+/** What a voice provider's connect() gets from the data store. */
+export interface ConnectDeps {
+  data: DataStoreMethods;
+  converseApi: ConverseApi;
+  tag: string;
+  apiKey: string;
+  getMode: () => InteractionMode;
+  getOutputMuted: () => boolean;
+  readbackInstruction: (text: string) => () => void;
+  toolHandlers?: ToolHandlers;
+  /** Gemini Live client for a key; a real GoogleGenAI when omitted. Lets a fake session stand in. */
+  createLiveClient?: (apiKey: string) => LiveClient;
+}
+
+/** The part of GoogleGenAI's `live` that gemini.ts and tts-session.ts use. */
+export interface LiveClient {
+  connect(params: LiveConnectParameters): Promise<LiveSession>;
+}
+
+/** The part of the SDK's Session they use — its private members stay out of fakes. */
+export interface LiveSession {
+  sendRealtimeInput(params: LiveSendRealtimeInputParameters): void;
+  sendClientContent(params: LiveSendClientContentParameters): void;
+  sendToolResponse(params: LiveSendToolResponseParameters): void;
+  close(): void;
+}
+
 // --- Port: Claude Code converse API ---
 
+export interface StreamCallbacks {
+  onChunk: (text: string) => void;
+  onBlock?: (block: ContentBlock) => void;
+  onToolStart?: (id: string, name: string) => void;
+  onToolInput?: (id: string, partialJson: string) => void;
+  onToolEnd?: (id: string) => void;
+  onPermissionRequest?: (request: PermissionRequestInfo) => void;
+  onPermissionResolved?: (requestId: string) => void;
+  /** A subagent's own text, tool call or result, under the tool_use that spawned it. */
+  onSubagentBlock?: (parentToolUseId: string, block: ContentBlock) => void;
+  /** A subagent's result came back to the parent run. */
+  onSubagentDone?: (toolUseId: string, description: string) => void;
+  /** The server stopped the run at a budget limit; `onDone` follows. */
+  onLimit?: (breach: LimitBreach) => void;
+  onDone?: (cost: number | null, durationMs: number) => void;
+  onError: (msg: string) => void;
+}
+
 export interface ConverseApi {
   sessionId: string | null;
   sessionStart: number;
   leafUuid: string | null;
-  stream(
-    instruction: string,
-    callbacks: {
-      onChunk: (text: string) => void;
-      onBlock?: (block: ContentBlock) => void;
-      onDone?: (cost: number, durationMs: number) => void;
-      onError: (msg: string) => void;
-    },
-  ): Promise<void>;
+  rewindCode: boolean; // with leafUuid: the fork also puts the files back as they were at the leaf
+  readonly runId: string | null;
+  stream(instruction: string, callbacks: StreamCallbacks): Promise<void>;
+  /** Attach to a run already in flight on the server (e.g. after a page reload). */
+  resume(runId: string, callbacks: StreamCallbacks): Promise<void>;
+  respondPermission(requestId: string, decision: PermissionDecision): Promise<void>;
   abort(): void;
 }
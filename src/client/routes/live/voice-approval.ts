@@ -6,13 +6,19 @@
  * Used for:
  * - Approval holds: accept/reject keywords while Gemini is frozen
  * - Stop detection: stop/cancel keywords while Claude is streaming
+ * - Tool permissions: allow/deny/always while Claude waits on canUseTool
  */
 
+import type { PermissionDecision } from './types';
+
 // ── Keyword sets ──
 
 export const ACCEPT_WORDS = ['accept', 'yes'] as const;
 export const REJECT_WORDS = ['reject', 'no'] as const;
 export const STOP_WORDS = ['stop', 'cancel'] as const;
+export const ALLOW_WORDS = ['allow', 'yes'] as const;
+export const DENY_WORDS = ['deny', 'no'] as const;
+export const ALWAYS_WORDS = ['always'] as const;
 
 // ── Listener ──
 
@@ -29,7 +35,7 @@ export function startKeywordListener(
   keywords: Record<string, () => void>,
   { tag = 'keyword', lang = 'en-US' }: KeywordListenerOptions = {},
 ): (() => void) | null {
-  if (!webkitSpeechRecognition) {
+  if (typeof webkitSpeechRecognition === 'undefined') {
     console.warn(`[${tag}] SpeechRecognition not available`);
     return null;
   }
@@ -108,3 +114,18 @@ export function startVoiceApproval(
   for (const w of REJECT_WORDS) keywords[w] = onReject;
   return startKeywordListener(keywords, { tag: 'voice-approval', lang });
 }
+
+/**
+ * Voice-based tool permission — listens for allow/deny/always keywords.
+ * "always allow" resolves as `always` since words are matched in spoken order.
+ */
+export function startVoicePermission(
+  onDecision: (decision: PermissionDecision) => void,
+  lang?: string,
+): (() => void) | null {
+  const keywords: Record<string, () => void> = {};
+  for (const w of ALLOW_WORDS) keywords[w] = () => onDecision('allow');
+  for (const w of DENY_WORDS) keywords[w] = () => onDecision('deny');
+  for (const w of ALWAYS_WORDS) keywords[w] = () => onDecision('always');
+  return startKeywordListener(keywords, { tag: 'voice-permission', lang });
+}
@@ -107,6 +107,9 @@ const STREAMING_TOOL: PendingTool = {
   blocks: [
     { type: 'text', text: 'Running the build to check for any TypeScript errors. The output will show if there are any compilation issues...' },
   ],
+  toolCalls: [
+    { id: 'tool_3', name: 'Bash', partialInput: '{"command": "npm run bu', done: false },
+  ],
   streaming: true,
 };
 
@@ -160,6 +163,7 @@ export const SCENARIOS: Scenario[] = [
         args: { instruction: 'Can you also check if there are any TypeScript errors in the project by running the build command?' },
         text: '',
         blocks: [],
+        toolCalls: [],
         streaming: false,
       },
       pendingApproval: {
@@ -0,0 +1,132 @@
+/**
+ * Agent backend port.
+ * Duck Talk is a voice layer over a black-box coding agent — routes only
+ * talk to this interface. Claude Code (claude-client.ts) is one
+ * implementation; a generic JSON-lines CLI adapter (cli-agent.ts) is another.
+ */
+
+import type {
+  LimitBreach,
+  MessageResponse,
+  PermissionDecision,
+  ProjectInfo,
+  SessionInfo,
+} from '../shared/types.js';
+
+// --- Chunk types ---
+
+export interface TextDelta {
+  kind: 'text';
+  text: string;
+}
+
+export interface ContentBlockChunk {
+  kind: 'block';
+  block: Record<string, unknown>;
+  parentToolUseId?: string; // a subagent's own block: the tool_use that spawned it
+}
+
+export interface Result {
+  kind: 'result';
+  sessionId: string;
+  costUsd: number | null;
+  durationMs: number;
+  error: string | null;
+  limit?: LimitBreach['kind']; // the agent stopped itself on maxTurns / maxBudgetUsd
+}
+
+export interface SessionChunk {
+  kind: 'session';
+  sessionId: string;
+}
+
+export interface ToolStartChunk {
+  kind: 'tool_start';
+  id: string;
+  name: string;
+}
+
+export interface ToolInputChunk {
+  kind: 'tool_input';
+  id: string;
+  partialJson: string;
+}
+
+export interface ToolEndChunk {
+  kind: 'tool_end';
+  id: string;
+}
+
+export type Chunk =
+  | TextDelta
+  | ContentBlockChunk
+  | ToolStartChunk
+  | ToolInputChunk
+  | ToolEndChunk
+  | SessionChunk
+  | Result;
+
+// --- Permission prompts ---
+
+export interface PermissionPrompt {
+  toolName: string;
+  input: Record<string, unknown>;
+  toolUseId: string;
+  decisionReason?: string;
+  blockedPath?: string;
+  signal: AbortSignal;
+}
+
+export type AskPermission = (prompt: PermissionPrompt) => Promise<PermissionDecision>;
+
+// --- Backend ---
+
+export interface ConverseOptions {
+  model: string;
+  systemPrompt: string;
+  cwd: string;
+  sessionId?: string;
+  permissionMode?: string;
+  fork?: boolean;
+  askPermission?: AskPermission; // unset = tools outside the agent's allow-list are refused
+  abortController?: AbortController; // aborting must stop the agent, not just the stream
+  // Hints for agents that can enforce limits themselves; the routes enforce them either way
+  maxTurns?: number;
+  maxBudgetUsd?: number;
+}
+
+export interface AgentBackend {
+  /** Short identifier reported by /api/config, e.g. "claude". */
+  readonly name: string;
+
+  /** Run one instruction. Must end with exactly one `result` chunk (or throw). */
+  converse(message: string, opts: ConverseOptions): AsyncGenerator<Chunk>;
+
+  /** Every project the agent has sessions for, newest first. Unset = only the server's cwd. */
+  listProjects?(): ProjectInfo[];
+
+  /** Sessions for a project, newest first. */
+  listSessions(cwd: string): SessionInfo[];
+
+  /**
+   * Messages on the branch ending at `leafUuid` (default: the active branch),
+   * root → leaf. Null if the session or leaf is unknown. `acrossCompactions`
+   * includes the history before compact boundaries, not just the latest tail.
+   */
+  loadMessages(
+    cwd: string,
+    sessionId: string,
+    leafUuid?: string,
+    opts?: { acrossCompactions?: boolean },
+  ): MessageResponse[] | null;
+
+  /**
+   * Path to a Claude Code-format JSONL transcript, if this agent writes one.
+   * Enables tree navigation (/leaves, /path) and rewinding via forkSession.
+   * Throws a 400 for an id that isn't a bare name (see isSessionId).
+   */
+  sessionFile?(cwd: string, sessionId: string): string | null;
+
+  /** Directory the agent writes a project's transcripts to — watched for outside changes. */
+  sessionDir?(cwd: string): string;
+}
@@ -0,0 +1,126 @@
+/**
+ * Conversation loading benchmark — full parse vs cache, activeLeaf old vs new.
+ * Writes a synthetic session (a long main line with forks hanging off it)
+ * to a temp dir, or benchmarks a copy of the JSONL given with --file.
+ * Run: npx tsx src/server/bench-conversation.ts [--entries 20000] [--forks 200] [--file path]
+ */
+
+import { appendFileSync, copyFileSync, mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { Conversation } from '../shared/models.js';
+import type { TreeEntry } from '../shared/types.js';
+
+function arg(name: string, fallback: string): string {
+  const i = process.argv.indexOf(`--${name}`);
+  return i >= 0 && process.argv[i + 1] ? process.argv[i + 1]! : fallback;
+}
+
+let seq = 0;
+function entry(parentUuid: string | null, sessionId: string): TreeEntry {
+  const n = seq++;
+  const uuid = `00000000-0000-4000-8000-${String(n).padStart(12, '0')}`;
+  const timestamp = new Date(Date.UTC(2025, 0, 1) + n * 1000).toISOString();
+  if (n % 2 === 0) {
+    return { type: 'user', uuid, parentUuid, sessionId, timestamp, message: { role: 'user', content: `Instruction ${n}: ${'lorem ipsum '.repeat(20)}` } };
+  }
+  return {
+    type: 'assistant',
+    uuid,
+    parentUuid: parentUuid!,
+    sessionId,
+    timestamp,
+    message: {
+      role: 'assistant',
+      model: 'claude-sonnet-4-5',
+      content: [{ type: 'text', text: `Reply ${n}: ${'dolor sit amet '.repeat(40)}` }],
+      usage: { input_tokens: 100, output_tokens: 200 },
+    },
+  };
+}
+
+/** Main line of `entries` with `forks` short side branches spread along it. */
+function writeFixture(path: string, entries: number, forks: number): void {
+  const lines: string[] = [];
+  let parent: string | null = null;
+  const forkEvery = Math.max(1, Math.floor(entries / (forks + 1)));
+  for (let i = 0; i < entries; i++) {
+    const e = entry(parent, 'bench');
+    lines.push(JSON.stringify(e));
+    parent = e.uuid;
+    if (i % forkEvery === 0 && i > 0) {
+      let side: string | null = e.uuid;
+      for (let j = 0; j < 4; j++) {
+        const s = entry(side, 'bench');
+        lines.push(JSON.stringify(s));
+        side = s.uuid;
+      }
+    }
+  }
+  writeFileSync(path, lines.join('\n') + '\n');
+}
+
+/** activeLeaf as it was: a full walkPath per leaf. */
+function activeLeafByWalk(conv: Conversation): TreeEntry | null {
+  let best: TreeEntry | null = null;
+  let bestDepth = -1;
+  for (const leaf of conv.leaves) {
+    const depth = conv.walkPath(leaf.uuid).length;
+    if (depth > bestDepth) {
+      bestDepth = depth;
+      best = leaf;
+    }
+  }
+  return best;
+}
+
+function time<T>(label: string, fn: () => T, runs = 5): T {
+  let result!: T;
+  const samples: number[] = [];
+  for (let i = 0; i < runs; i++) {
+    const t0 = performance.now();
+    result = fn();
+    samples.push(performance.now() - t0);
+  }
+  samples.sort((a, b) => a - b);
+  console.log(`${label.padEnd(36)} ${samples[Math.floor(runs / 2)]!.toFixed(2).padStart(10)} ms (median of ${runs})`);
+  return result;
+}
+
+function main() {
+  const dir = mkdtempSync(join(tmpdir(), 'duck-talk-bench-'));
+  const given = arg('file', '');
+  const path = join(dir, 'bench.jsonl');
+  try {
+    if (given) {
+      copyFileSync(given, path); // the append step below writes to it
+    } else {
+      writeFixture(path, parseInt(arg('entries', '20000'), 10), parseInt(arg('forks', '200'), 10));
+    }
+
+    const conv = time('fromJsonl (full parse)', () => Conversation.fromJsonl(path));
+    console.log(`  ${conv.records.length} records, ${conv.leaves.length} leaves`);
+
+    // Fresh instances so each run also rebuilds the tree index
+    const slow = time('activeLeaf, walkPath per leaf', () => activeLeafByWalk(new Conversation(conv.records)), 3);
+    const fast = time('activeLeaf, memoized depth', () => new Conversation(conv.records).activeLeaf, 3);
+    if (slow?.uuid !== fast?.uuid) throw new Error(`activeLeaf mismatch: ${slow?.uuid} vs ${fast?.uuid}`);
+
+    time('load (cold cache)', () => Conversation.load(path).activeLeaf, 1);
+    time('load (cached, unchanged)', () => Conversation.load(path).activeLeaf);
+
+    let tip = Conversation.load(path).activeLeaf!.uuid;
+    time('load (after a 2-entry append)', () => {
+      const u = entry(tip, 'bench');
+      const a = entry(u.uuid, 'bench');
+      appendFileSync(path, JSON.stringify(u) + '\n' + JSON.stringify(a) + '\n');
+      tip = Conversation.load(path).activeLeaf!.uuid;
+      return tip;
+    });
+    if (tip !== Conversation.fromJsonl(path).activeLeaf?.uuid) throw new Error('cached load diverged from a full parse');
+  } finally {
+    rmSync(dir, { recursive: true, force: true });
+  }
+}
+
+main();
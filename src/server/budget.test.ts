@@ -0,0 +1,91 @@
+import assert from 'node:assert/strict';
+import { afterEach, beforeEach, mock, test } from 'node:test';
+import type { LimitBreach, RunLimits } from '../shared/types.js';
+import type { Chunk } from './agent.js';
+import { BudgetGuard, mergeLimits, parseLimits } from './budget.js';
+
+beforeEach(() => {
+  mock.timers.enable({ apis: ['setTimeout'] });
+  mock.method(console, 'info', () => {});
+});
+
+afterEach(() => {
+  mock.timers.reset();
+  mock.restoreAll();
+});
+
+function guard(limits: RunLimits) {
+  const breaches: LimitBreach[] = [];
+  return { budget: new BudgetGuard(limits, (b) => breaches.push(b)), breaches };
+}
+
+const text: Chunk = { kind: 'text', text: 'Checking.' };
+const toolStart: Chunk = { kind: 'tool_start', id: 't1', name: 'Bash' };
+const toolResult: Chunk = { kind: 'block', block: { type: 'tool_result', tool_use_id: 't1', content: '' } };
+
+function result(costUsd: number | null, limit?: 'cost' | 'turns'): Chunk {
+  return { kind: 'result', sessionId: 's', costUsd, durationMs: 0, error: null, ...(limit && { limit }) };
+}
+
+test('parseLimits keeps positive numbers only', () => {
+  assert.deepEqual(parseLimits({ max_cost_usd: 0.5, max_turns: 0, timeout_s: '60', extra: 1 }), { max_cost_usd: 0.5 });
+  assert.deepEqual(parseLimits(null), {});
+});
+
+test('mergeLimits takes the stricter of each limit', () => {
+  assert.deepEqual(mergeLimits({ max_cost_usd: 1, max_turns: 10 }, { max_cost_usd: 0.25, timeout_s: 30 }), {
+    max_cost_usd: 0.25,
+    max_turns: 10,
+    timeout_s: 30,
+  });
+});
+
+test('trips once the run takes more turns than allowed', () => {
+  const { budget, breaches } = guard({ max_turns: 2 });
+  // Text and a tool call in one response are one turn
+  for (const chunk of [text, toolStart, toolResult, toolStart, toolResult]) budget.observe(chunk);
+  assert.equal(breaches.length, 0);
+  budget.observe(text);
+  assert.deepEqual(breaches.map((b) => b.kind), ['turns']);
+  assert.equal(breaches[0]!.message, 'I stopped Claude after 2 turns, the limit for one run.');
+});
+
+test('a subagent\'s tool results don\'t end the turn', () => {
+  const { budget, breaches } = guard({ max_turns: 1 });
+  budget.observe(toolStart);
+  budget.observe({ ...toolResult, parentToolUseId: 't1' } as Chunk);
+  budget.observe(text);
+  assert.equal(breaches.length, 0);
+});
+
+test('trips on the wall clock and not after the result', () => {
+  const { breaches } = guard({ timeout_s: 90 });
+  mock.timers.tick(89_999);
+  assert.equal(breaches.length, 0);
+  mock.timers.tick(1);
+  assert.deepEqual(breaches.map((b) => b.message), ['I stopped Claude: this run took longer than 90 seconds.']);
+
+  const finished = guard({ timeout_s: 90 });
+  finished.budget.observe(result(0.01));
+  mock.timers.tick(90_000);
+  assert.equal(finished.breaches.length, 0);
+});
+
+test('checks the reported cost when the result arrives', () => {
+  const { budget, breaches } = guard({ max_cost_usd: 0.05 });
+  budget.observe(result(0.08));
+  // Cost is only known once the run is over: recorded, nothing left to abort
+  assert.equal(breaches.length, 0);
+  assert.equal(budget.breach?.message, 'I stopped Claude: this run went over the 5 cent budget.');
+});
+
+test('records a limit the agent enforced itself without aborting', () => {
+  const { budget, breaches } = guard({ max_cost_usd: 2 });
+  budget.observe(result(2.1, 'cost'));
+  assert.equal(breaches.length, 0);
+  assert.deepEqual(budget.breach, {
+    kind: 'cost',
+    limit: 2,
+    message: 'I stopped Claude: this run went over the 2 dollar budget.',
+  });
+});
@@ -0,0 +1,137 @@
+/**
+ * Run budgets.
+ * Voice makes it easy to fire off an expensive instruction without looking
+ * at the screen, so every run is capped by the stricter of the server's
+ * limits and the ones the request asks for.
+ *
+ * The guard watches the chunk stream. Wall-clock and turn limits abort the
+ * run as soon as they're crossed. Cost is only known when the agent reports
+ * it: Claude stops itself via maxBudgetUsd, other agents are checked when
+ * their result arrives.
+ */
+
+import type { LimitBreach, RunLimits } from '../shared/types.js';
+import type { Chunk } from './agent.js';
+
+const LIMIT_KEYS = ['max_cost_usd', 'max_turns', 'timeout_s'] as const;
+
+/** Keep positive numbers only — anything else means "no limit". */
+export function parseLimits(raw: unknown): RunLimits {
+  const limits: RunLimits = {};
+  if (typeof raw !== 'object' || raw === null) return limits;
+  for (const key of LIMIT_KEYS) {
+    const v = (raw as Record<string, unknown>)[key];
+    if (typeof v === 'number' && Number.isFinite(v) && v > 0) limits[key] = v;
+  }
+  return limits;
+}
+
+/** The stricter of each limit. */
+export function mergeLimits(server: RunLimits, request: RunLimits): RunLimits {
+  const merged: RunLimits = {};
+  for (const key of LIMIT_KEYS) {
+    const values = [server[key], request[key]].filter((v): v is number => v !== undefined);
+    if (values.length) merged[key] = Math.min(...values);
+  }
+  return merged;
+}
+
+export function describeLimits(limits: RunLimits): string {
+  const parts: string[] = [];
+  if (limits.max_cost_usd !== undefined) parts.push(`$${limits.max_cost_usd}/run`);
+  if (limits.max_turns !== undefined) parts.push(`${limits.max_turns} turns`);
+  if (limits.timeout_s !== undefined) parts.push(`${limits.timeout_s}s`);
+  return parts.join(', ') || 'none';
+}
+
+export class BudgetGuard {
+  private readonly limits: RunLimits;
+  private readonly onBreach: (breach: LimitBreach) => void;
+  private readonly timer: ReturnType<typeof setTimeout> | undefined;
+  private turns = 0;
+  private inTurn = false;
+  breach: LimitBreach | null = null;
+
+  /** `onBreach` should abort the run; it is not called for limits the agent enforced itself. */
+  constructor(limits: RunLimits, onBreach: (breach: LimitBreach) => void) {
+    this.limits = limits;
+    this.onBreach = onBreach;
+    if (limits.timeout_s !== undefined) {
+      this.timer = setTimeout(() => this.trip('timeout', limits.timeout_s!), limits.timeout_s * 1000);
+      this.timer.unref();
+    }
+  }
+
+  observe(chunk: Chunk): void {
+    switch (chunk.kind) {
+      // A turn is one model response: it starts with output and ends when tool results go back
+      case 'text':
+      case 'tool_start':
+        if (this.inTurn) break;
+        this.inTurn = true;
+        this.turns++;
+        if (this.limits.max_turns !== undefined && this.turns > this.limits.max_turns) {
+          this.trip('turns', this.limits.max_turns);
+        }
+        break;
+      case 'block':
+        // A subagent's tool results don't end the parent's turn
+        if (chunk.block['type'] === 'tool_result' && !chunk.parentToolUseId) this.inTurn = false;
+        break;
+      case 'result':
+        this.stop();
+        if (this.breach) break;
+        if (chunk.limit) {
+          const limit = chunk.limit === 'turns' ? this.limits.max_turns : this.limits.max_cost_usd;
+          this.breach = breach(chunk.limit, limit ?? 0);
+        } else if (
+          this.limits.max_cost_usd !== undefined &&
+          chunk.costUsd !== null &&
+          chunk.costUsd > this.limits.max_cost_usd
+        ) {
+          this.breach = breach('cost', this.limits.max_cost_usd);
+        }
+        if (this.breach) console.info(`budget: ${this.breach.message}`);
+        break;
+      default:
+        break;
+    }
+  }
+
+  stop(): void {
+    clearTimeout(this.timer);
+  }
+
+  private trip(kind: LimitBreach['kind'], limit: number): void {
+    if (this.breach) return;
+    this.stop();
+    this.breach = breach(kind, limit);
+    console.info(`budget: ${this.breach.message}`);
+    this.onBreach(this.breach);
+  }
+}
+
+// --- Helpers ---
+
+function breach(kind: LimitBreach['kind'], limit: number): LimitBreach {
+  switch (kind) {
+    case 'cost':
+      return { kind, limit, message: `I stopped Claude: this run went over the ${formatUsd(limit)} budget.` };
+    case 'turns':
+      return { kind, limit, message: `I stopped Claude after ${plural(limit, 'turn')}, the limit for one run.` };
+    case 'timeout':
+      return { kind, limit, message: `I stopped Claude: this run took longer than ${formatDuration(limit)}.` };
+  }
+}
+
+function formatUsd(usd: number): string {
+  return usd < 1 ? `${+(usd * 100).toFixed(1)} cent` : `${usd} dollar`;
+}
+
+function formatDuration(seconds: number): string {
+  return seconds < 120 ? plural(seconds, 'second') : plural(Math.round(seconds / 60), 'minute');
+}
+
+function plural(n: number, unit: string): string {
+  return `${n} ${unit}${n === 1 ? '' : 's'}`;
+}
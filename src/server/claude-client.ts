@@ -1,11 +1,11 @@
 /**
  * Streaming interface to Claude Code via the TS Agent SDK.
- * Port of Python claude_client.py.
+ * Port of Python claude_client.py. The default AgentBackend.
  */
 
-import { join } from 'node:path';
 import { query } from '@anthropic-ai/claude-agent-sdk';
 import type {
+  CanUseTool,
   Options,
   PermissionMode,
   SDKMessage,
@@ -14,16 +14,24 @@ import type {
   SDKUserMessage,
   SDKResultMessage,
 } from '@anthropic-ai/claude-agent-sdk';
-import { pathToSlug } from '../shared/models.js';
+import type { AgentBackend, AskPermission, Chunk, ConverseOptions } from './agent.js';
+import { ClaudeSessions } from './claude-sessions.js';
 
 // Prevent nested session error when running inside Claude Code
 delete process.env['CLAUDECODE'];
 
 // --- Config ---
 
+/**
+ * Tools that run without asking: they only read. Anything else goes to
+ * `askPermission`, or is refused when the run has no one to ask.
+ */
+export const ALLOWED_TOOLS = ['Read', 'WebSearch'];
+
 export interface ClaudeConfig {
   configDir: string;     // e.g. "~/.claude"
   cliPath?: string;      // None = `claude` on PATH
+  indexDir?: string;     // session list index, default ~/.duck_talk/index
 }
 
 export function subprocessEnv(config: ClaudeConfig): Record<string, string> {
@@ -40,65 +48,81 @@ export function subprocessEnv(config: ClaudeConfig): Record<string, string> {
   return env;
 }
 
-export function projectDir(config: ClaudeConfig, cwd: string): string {
-  const expanded = config.configDir.replace(/^~/, process.env['HOME'] || '');
-  return join(expanded, 'projects', pathToSlug(cwd));
-}
-
-// --- Chunk types ---
+// --- Permission bridge ---
 
-export interface TextDelta {
-  kind: 'text';
-  text: string;
+function permissionBridge(ask: AskPermission): CanUseTool {
+  return async (toolName, input, { signal, suggestions, toolUseID, decisionReason, blockedPath }) => {
+    const decision = await ask({ toolName, input, toolUseId: toolUseID, decisionReason, blockedPath, signal });
+    console.info(`permission: ${toolName} (${toolUseID}) -> ${decision}`);
+    if (decision === 'deny') {
+      return { behavior: 'deny', message: 'The user denied this tool call.' };
+    }
+    return {
+      behavior: 'allow',
+      updatedInput: input,
+      ...(decision === 'always' && suggestions ? { updatedPermissions: suggestions } : {}),
+    };
+  };
 }
 
-export interface ContentBlockChunk {
-  kind: 'block';
-  block: Record<string, unknown>;
-}
+// --- Subagents ---
 
-export interface Result {
-  kind: 'result';
-  sessionId: string;
-  costUsd: number | null;
-  durationMs: number;
-  error: string | null;
+/** A subagent message's text, tool calls and results, tagged with the call that spawned it. */
+function* subagentBlocks(parentToolUseId: string, content: unknown[]): Generator<Chunk> {
+  for (const block of content) {
+    const b = block as Record<string, unknown>;
+    let out: Record<string, unknown> | null = null;
+    if (b['type'] === 'text' && typeof b['text'] === 'string' && b['text']) {
+      out = { type: 'text', text: b['text'] };
+    } else if (b['type'] === 'tool_use') {
+      out = { type: 'tool_use', id: b['id'], name: b['name'], input: b['input'] };
+    } else if (b['type'] === 'tool_result') {
+      const raw = b['content'];
+      out = {
+        type: 'tool_result',
+        tool_use_id: b['tool_use_id'],
+        content: typeof raw === 'string' ? raw : raw ? JSON.stringify(raw) : '',
+      };
+    }
+    if (out) yield { kind: 'block', block: out, parentToolUseId };
+  }
 }
 
-export type Chunk = TextDelta | ContentBlockChunk | Result;
-
 // --- Client ---
 
-export class Claude {
+export class Claude extends ClaudeSessions implements AgentBackend {
+  readonly name = 'claude';
   private readonly config: ClaudeConfig;
 
   constructor(config: ClaudeConfig) {
+    super(config);
     this.config = config;
   }
 
-  async *converse(
-    message: string,
-    opts: {
-      model: string;
-      systemPrompt: string;
-      cwd: string;
-      sessionId?: string;
-      permissionMode?: PermissionMode;
-      fork?: boolean;
-    },
-  ): AsyncGenerator<Chunk> {
+  async *converse(message: string, opts: ConverseOptions): AsyncGenerator<Chunk> {
     const options: Options = {
       model: opts.model,
       cwd: opts.cwd,
       systemPrompt: opts.systemPrompt,
       includePartialMessages: true,
-      permissionMode: opts.permissionMode ?? 'plan',
-      allowedTools: ['Read', 'WebSearch'],
+      permissionMode: (opts.permissionMode ?? 'plan') as PermissionMode,
+      allowedTools: ALLOWED_TOOLS,
       disallowedTools: ['AskUserQuestion', 'Skill'],
       env: subprocessEnv(this.config),
       stderr: (line: string) => console.debug('sdk:', line.trimEnd()),
     };
 
+    if (opts.abortController) {
+      options.abortController = opts.abortController;
+    }
+
+    if (opts.maxTurns !== undefined) options.maxTurns = opts.maxTurns;
+    if (opts.maxBudgetUsd !== undefined) options.maxBudgetUsd = opts.maxBudgetUsd;
+
+    if (opts.askPermission) {
+      options.canUseTool = permissionBridge(opts.askPermission);
+    }
+
     if (this.config.cliPath) {
       options.pathToClaudeCodeExecutable = this.config.cliPath.replace(
         /^~/,
@@ -115,12 +139,62 @@ export class Claude {
     console.info(`query: ${message.slice(0, 120)}`);
     const stream = query({ prompt: message, options });
 
+    // In-flight tool_use blocks keyed by stream index. Tools streamed here are
+    // recorded in emittedToolIds so the assembled AssistantMessage copy is skipped.
+    const activeTools = new Map<number, { id: string; name: string; json: string }>();
+    const emittedToolIds = new Set<string>();
+
     for await (const msg of stream as AsyncIterable<SDKMessage>) {
       if (msg.type === 'stream_event') {
         const partial = msg as SDKPartialAssistantMessage;
+        // Subagents aren't streamed token by token; their messages arrive whole below
+        if (partial.parent_tool_use_id) continue;
         const event = partial.event as unknown as Record<string, unknown>;
+        const index = event['index'] as number | undefined;
+
+        if (event['type'] === 'content_block_start') {
+          const cb = event['content_block'] as Record<string, unknown> | undefined;
+          if (cb?.['type'] === 'tool_use' && index !== undefined) {
+            const id = String(cb['id']);
+            const name = String(cb['name']);
+            activeTools.set(index, { id, name, json: '' });
+            yield { kind: 'tool_start', id, name };
+          }
+          continue;
+        }
+
+        if (event['type'] === 'content_block_stop') {
+          const tool = index !== undefined ? activeTools.get(index) : undefined;
+          if (tool) {
+            activeTools.delete(index!);
+            let input: unknown = {};
+            try {
+              if (tool.json) input = JSON.parse(tool.json);
+            } catch {
+              console.warn(`tool ${tool.name} (${tool.id}): malformed input JSON`);
+            }
+            emittedToolIds.add(tool.id);
+            yield { kind: 'tool_end', id: tool.id };
+            yield {
+              kind: 'block',
+              block: { type: 'tool_use', id: tool.id, name: tool.name, input },
+            };
+          }
+          continue;
+        }
+
         const delta = event['delta'] as Record<string, unknown> | undefined;
         if (delta) {
+          // input_json_delta carries its fragment in `partial_json`, not `input_json`
+          if (delta['type'] === 'input_json_delta') {
+            const tool = index !== undefined ? activeTools.get(index) : undefined;
+            const fragment = delta['partial_json'];
+            if (tool && typeof fragment === 'string' && fragment) {
+              tool.json += fragment;
+              yield { kind: 'tool_input', id: tool.id, partialJson: fragment };
+            }
+            continue;
+          }
           const text = delta['text'];
           if (typeof text === 'string' && text) {
             yield { kind: 'text', text };
@@ -129,10 +203,12 @@ export class Claude {
       } else if (msg.type === 'assistant') {
         const asst = msg as SDKAssistantMessage;
         const content = asst.message?.content;
-        if (Array.isArray(content)) {
+        if (asst.parent_tool_use_id && Array.isArray(content)) {
+          yield* subagentBlocks(asst.parent_tool_use_id, content);
+        } else if (Array.isArray(content)) {
           for (const block of content) {
             const b = block as unknown as Record<string, unknown>;
-            if (b['type'] === 'tool_use') {
+            if (b['type'] === 'tool_use' && !emittedToolIds.has(String(b['id']))) {
               yield {
                 kind: 'block',
                 block: {
@@ -148,7 +224,9 @@ export class Claude {
       } else if (msg.type === 'user') {
         const user = msg as SDKUserMessage;
         const content = user.message?.content;
-        if (Array.isArray(content)) {
+        if (user.parent_tool_use_id && Array.isArray(content)) {
+          yield* subagentBlocks(user.parent_tool_use_id, content);
+        } else if (Array.isArray(content)) {
           for (const block of content) {
             const b = block as unknown as Record<string, unknown>;
             if (b['type'] === 'tool_result') {
@@ -164,10 +242,17 @@ export class Claude {
             }
           }
         }
+      } else if (msg.type === 'system' && msg.subtype === 'init') {
+        // Known up front (incl. the new id of a fork) — lets detached runs be matched to sessions
+        yield { kind: 'session', sessionId: msg.session_id };
       } else if (msg.type === 'result') {
         const result = msg as SDKResultMessage;
         // Error handling: success has `result`, error subtypes have `errors[]`
         let error: string | null = null;
+        const limit =
+          result.subtype === 'error_max_turns' ? 'turns' as const
+          : result.subtype === 'error_max_budget_usd' ? 'cost' as const
+          : undefined;
         if (result.is_error) {
           if ('errors' in result && Array.isArray(result.errors)) {
             error = result.errors.join('; ');
@@ -184,9 +269,10 @@ export class Claude {
           costUsd: result.total_cost_usd,
           durationMs: result.duration_ms,
           error,
+          ...(limit && { limit }),
         };
       }
-      // Ignore other message types (system init, tool_progress, etc.)
+      // Other message types (tool_progress, status, hooks) carry nothing the stream needs
     }
   }
 }
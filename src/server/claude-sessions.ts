@@ -0,0 +1,78 @@
+/**
+ * Session storage shared by the agents that write Claude Code's own layout,
+ * `<configDir>/projects/<project slug>/<session id>.jsonl` — the SDK client
+ * and the mock agent. Listing, loading and locating transcripts live here
+ * once; subclasses only supply `converse`.
+ */
+
+import { existsSync } from 'node:fs';
+import { join } from 'node:path';
+import {
+  attachSubagents,
+  Conversation,
+  isSessionId,
+  listProjects,
+  pathMessages,
+  pathToSlug,
+  sessionSubagents,
+} from '../shared/models.js';
+import type { MessageResponse, ProjectInfo, SessionInfo } from '../shared/types.js';
+import type { ClaudeConfig } from './claude-client.js';
+import { SessionIndex } from './session-index.js';
+
+export function projectsRoot(config: ClaudeConfig): string {
+  const expanded = config.configDir.replace(/^~/, process.env['HOME'] || '');
+  return join(expanded, 'projects');
+}
+
+export function projectDir(config: ClaudeConfig, cwd: string): string {
+  return join(projectsRoot(config), pathToSlug(cwd));
+}
+
+export abstract class ClaudeSessions {
+  protected readonly claude: ClaudeConfig;
+  private readonly sessions: SessionIndex;
+
+  protected constructor(claude: ClaudeConfig) {
+    this.claude = claude;
+    this.sessions = new SessionIndex(claude.indexDir ?? '~/.duck_talk/index');
+  }
+
+  sessionDir(cwd: string): string {
+    return projectDir(this.claude, cwd);
+  }
+
+  sessionFile(cwd: string, sessionId: string): string | null {
+    if (!isSessionId(sessionId)) {
+      throw { status: 400, message: `Invalid session id: ${sessionId}` };
+    }
+    const candidate = join(projectDir(this.claude, cwd), `${sessionId}.jsonl`);
+    return existsSync(candidate) ? candidate : null;
+  }
+
+  listProjects(): ProjectInfo[] {
+    return listProjects(projectsRoot(this.claude));
+  }
+
+  listSessions(cwd: string): SessionInfo[] {
+    return this.sessions.list(projectDir(this.claude, cwd));
+  }
+
+  loadMessages(
+    cwd: string,
+    sessionId: string,
+    leafUuid?: string,
+    opts: { acrossCompactions?: boolean } = {},
+  ): MessageResponse[] | null {
+    const path = this.sessionFile(cwd, sessionId);
+    if (!path) return null;
+    const conv = Conversation.load(path);
+    const leaf = leafUuid ?? conv.activeLeaf?.uuid;
+    if (!leaf) return [];
+    const branch = conv.walkPath(leaf, opts);
+    if (branch.length === 0) return null;
+    const messages = pathMessages(branch);
+    attachSubagents(messages, sessionSubagents(conv, path));
+    return messages;
+  }
+}
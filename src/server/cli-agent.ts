@@ -0,0 +1,220 @@
+/**
+ * Generic AgentBackend for any CLI that speaks JSON lines over stdio.
+ *
+ * Protocol — one process per instruction, spawned in the project cwd:
+ *   stdin  ← {"message","session_id","model","system_prompt"}  (one line, then EOF)
+ *   stdout → one JSON object per line:
+ *     {"type":"text","text":"..."}
+ *     {"type":"tool_use","id":"...","name":"...","input":{...}}
+ *     {"type":"tool_result","tool_use_id":"...","content":"..."}
+ *     {"type":"result","session_id"?:"...","cost_usd"?:0.01,"error"?:"..."}
+ * Unknown lines are ignored. A missing result is reported from the exit code.
+ *
+ * The agent's own history is opaque, so the adapter keeps transcripts:
+ * `<dataDir>/<project slug>/<session id>.jsonl`, one MessageResponse per line.
+ */
+
+import { spawn } from 'node:child_process';
+import { randomUUID } from 'node:crypto';
+import {
+  appendFileSync,
+  existsSync,
+  mkdirSync,
+  readdirSync,
+  readFileSync,
+  statSync,
+} from 'node:fs';
+import { basename, join } from 'node:path';
+import { createInterface } from 'node:readline';
+import { isSessionId, pathToSlug } from '../shared/models.js';
+import type { ContentBlock, JsonDict, MessageResponse, SessionInfo } from '../shared/types.js';
+import type { AgentBackend, Chunk, ConverseOptions } from './agent.js';
+
+export interface CliAgentConfig {
+  command: string;
+  args: string[];
+  dataDir: string; // e.g. "~/.duck_talk/agents"
+}
+
+export class CliAgent implements AgentBackend {
+  readonly name: string;
+  private readonly config: CliAgentConfig;
+
+  constructor(config: CliAgentConfig) {
+    this.config = config;
+    this.name = basename(config.command);
+  }
+
+  sessionDir(cwd: string): string {
+    const expanded = this.config.dataDir.replace(/^~/, process.env['HOME'] || '');
+    return join(expanded, pathToSlug(cwd));
+  }
+
+  listSessions(cwd: string): SessionInfo[] {
+    const dir = this.sessionDir(cwd);
+    if (!existsSync(dir)) return [];
+
+    const sessions: SessionInfo[] = [];
+    for (const f of readdirSync(dir)) {
+      if (!f.endsWith('.jsonl')) continue;
+      const path = join(dir, f);
+      const messages = readTranscript(path);
+      const first = messages.find((m) => m.role === 'user' && typeof m.content === 'string');
+      if (!first) continue;
+      sessions.push({
+        id: basename(f, '.jsonl'),
+        name: (first.content as string).trim().slice(0, 200),
+        summary: firstAssistantText(messages),
+        updated_at: statSync(path).mtime.toISOString(),
+      });
+    }
+    sessions.sort((a, b) => (b.updated_at > a.updated_at ? 1 : b.updated_at < a.updated_at ? -1 : 0));
+    return sessions;
+  }
+
+  loadMessages(cwd: string, sessionId: string): MessageResponse[] | null {
+    if (!isSessionId(sessionId)) {
+      throw { status: 400, message: `Invalid session id: ${sessionId}` };
+    }
+    const path = join(this.sessionDir(cwd), `${sessionId}.jsonl`);
+    return existsSync(path) ? readTranscript(path) : null;
+  }
+
+  async *converse(message: string, opts: ConverseOptions): AsyncGenerator<Chunk> {
+    const t0 = Date.now();
+    console.info(`${this.name}: ${message.slice(0, 120)}`);
+
+    const child = spawn(this.config.command, this.config.args, {
+      cwd: opts.cwd,
+      stdio: ['pipe', 'pipe', 'pipe'],
+      signal: opts.abortController?.signal,
+    });
+    const exited = new Promise<number | null>((resolve) => {
+      child.on('close', (code) => resolve(code));
+      child.on('error', (e) => {
+        if (e.name !== 'AbortError') console.error(`${this.name}: spawn error:`, e);
+        resolve(null);
+      });
+    });
+    createInterface({ input: child.stderr }).on('line', (line) => console.debug(`${this.name}:`, line));
+
+    child.stdin.end(JSON.stringify({
+      message,
+      session_id: opts.sessionId ?? null,
+      model: opts.model,
+      system_prompt: opts.systemPrompt,
+    }) + '\n');
+
+    // Transcript for this turn, flushed once the session id is known
+    const transcript: MessageResponse[] = [{ uuid: randomUUID(), role: 'user', content: message }];
+    let assistant: ContentBlock[] = [];
+    const flushAssistant = () => {
+      if (assistant.length) transcript.push({ uuid: randomUUID(), role: 'assistant', content: assistant });
+      assistant = [];
+    };
+
+    let result: Extract<Chunk, { kind: 'result' }> | null = null;
+
+    for await (const line of createInterface({ input: child.stdout })) {
+      let event: JsonDict;
+      try {
+        event = JSON.parse(line) as JsonDict;
+      } catch {
+        continue; // not protocol output
+      }
+
+      switch (event['type']) {
+        case 'text': {
+          const text = event['text'];
+          if (typeof text !== 'string' || !text) break;
+          const last = assistant.at(-1);
+          if (last?.type === 'text') last.text += text;
+          else assistant.push({ type: 'text', text });
+          yield { kind: 'text', text };
+          break;
+        }
+        case 'tool_use': {
+          const block = {
+            type: 'tool_use' as const,
+            id: String(event['id'] ?? randomUUID()),
+            name: String(event['name'] ?? 'tool'),
+            input: (event['input'] as Record<string, unknown>) ?? {},
+          };
+          assistant.push(block);
+          yield { kind: 'block', block };
+          break;
+        }
+        case 'tool_result': {
+          const raw = event['content'];
+          const block = {
+            type: 'tool_result' as const,
+            tool_use_id: String(event['tool_use_id'] ?? ''),
+            content: typeof raw === 'string' ? raw : JSON.stringify(raw ?? ''),
+          };
+          flushAssistant();
+          transcript.push({ uuid: randomUUID(), role: 'user', content: [block] });
+          yield { kind: 'block', block };
+          break;
+        }
+        case 'result':
+          result = {
+            kind: 'result',
+            sessionId: String(event['session_id'] ?? opts.sessionId ?? randomUUID()),
+            costUsd: typeof event['cost_usd'] === 'number' ? event['cost_usd'] : null,
+            durationMs: Date.now() - t0,
+            error: typeof event['error'] === 'string' ? event['error'] : null,
+          };
+          break;
+      }
+    }
+
+    const code = await exited;
+    if (opts.abortController?.signal.aborted) return;
+
+    if (!result) {
+      result = {
+        kind: 'result',
+        sessionId: opts.sessionId ?? randomUUID(),
+        costUsd: null,
+        durationMs: Date.now() - t0,
+        error: code === 0 ? null : `${this.name} exited with code ${code}`,
+      };
+    }
+
+    flushAssistant();
+    const dir = this.sessionDir(opts.cwd);
+    mkdirSync(dir, { recursive: true });
+    appendFileSync(
+      join(dir, `${result.sessionId}.jsonl`),
+      transcript.map((m) => JSON.stringify(m)).join('\n') + '\n',
+    );
+
+    console.info(`${this.name} result: session=${result.sessionId}, ${result.durationMs}ms, error=${result.error}`);
+    yield result;
+  }
+}
+
+// --- Helpers ---
+
+function readTranscript(path: string): MessageResponse[] {
+  const messages: MessageResponse[] = [];
+  for (const line of readFileSync(path, 'utf-8').split('\n')) {
+    if (!line.trim()) continue;
+    try {
+      messages.push(JSON.parse(line) as MessageResponse);
+    } catch {
+      // skip malformed lines
+    }
+  }
+  return messages;
+}
+
+function firstAssistantText(messages: MessageResponse[]): string {
+  for (const m of messages) {
+    if (m.role !== 'assistant' || typeof m.content === 'string') continue;
+    for (const block of m.content) {
+      if (block.type === 'text' && block.text.trim()) return block.text.trim().slice(0, 300);
+    }
+  }
+  return '';
+}
@@ -9,6 +9,12 @@ import { dirname, join } from 'node:path';
 import { fileURLToPath } from 'node:url';
 import { createApp, type ServerConfig } from './routes.js';
 import type { ClaudeConfig } from './claude-client.js';
+import type { AgentBackend } from './agent.js';
+import type { RunLimits } from '../shared/types.js';
+import { describeLimits, parseLimits } from './budget.js';
+import { CliAgent } from './cli-agent.js';
+import { MockAgent } from './mock-agent.js';
+import { openaiApiKey } from './openai.js';
 
 // --- .env loader (no deps) ---
 
@@ -29,10 +35,26 @@ function loadEnv(): void {
 
 // --- Arg parsing ---
 
-function parseArgs(argv: string[]): { port: number; host: string; noBrowser: boolean } {
+interface CliArgs {
+  port: number;
+  host: string;
+  noBrowser: boolean;
+  agent: string; // "claude", "mock", or a command line speaking the JSON-lines protocol (see cli-agent.ts)
+  mockFixtures?: string;
+  limits: RunLimits;
+}
+
+function parseArgs(argv: string[]): CliArgs {
   let port = 8000;
   let host = '127.0.0.1';
   let noBrowser = false;
+  let agent = process.env['DUCK_TALK_AGENT'] || 'claude';
+  let mockFixtures = process.env['DUCK_TALK_MOCK_FIXTURES'] || undefined;
+  const limits: Record<string, unknown> = {
+    max_cost_usd: parseFloat(process.env['DUCK_TALK_MAX_COST_USD'] ?? ''),
+    max_turns: parseInt(process.env['DUCK_TALK_MAX_TURNS'] ?? '', 10),
+    timeout_s: parseFloat(process.env['DUCK_TALK_TIMEOUT_S'] ?? ''),
+  };
 
   for (let i = 2; i < argv.length; i++) {
     const arg = argv[i]!;
@@ -42,19 +64,41 @@ function parseArgs(argv: string[]): { port: number; host: string; noBrowser: boo
       host = argv[++i]!;
     } else if (arg === '--no-browser') {
       noBrowser = true;
+    } else if (arg === '--agent' && argv[i + 1]) {
+      agent = argv[++i]!;
+    } else if (arg === '--mock') {
+      agent = 'mock';
+    } else if (arg === '--mock-fixtures' && argv[i + 1]) {
+      agent = 'mock';
+      mockFixtures = argv[++i]!;
+    } else if (arg === '--max-cost' && argv[i + 1]) {
+      limits['max_cost_usd'] = parseFloat(argv[++i]!);
+    } else if (arg === '--max-turns' && argv[i + 1]) {
+      limits['max_turns'] = parseInt(argv[++i]!, 10);
+    } else if (arg === '--timeout' && argv[i + 1]) {
+      limits['timeout_s'] = parseFloat(argv[++i]!);
     }
   }
 
-  return { port, host, noBrowser };
+  return { port, host, noBrowser, agent, mockFixtures, limits: parseLimits(limits) };
 }
 
 // --- Prerequisites ---
 
-function checkPrereqs(config: ClaudeConfig): void {
+function checkPrereqs(config: ClaudeConfig, agent: string): void {
   const missing: string[] = [];
+  const useClaude = agent === 'claude';
+
+  if (useClaude && !process.env['ANTHROPIC_API_KEY']) missing.push('ANTHROPIC_API_KEY');
+  // Voice keys are optional: without one, only the browser's own speech works
+  const hasGemini = process.env['GEMINI_API_KEY'] || process.env['VITE_GEMINI_API_KEY'];
+  const hasOpenAI = openaiApiKey();
+  if (!hasGemini && !hasOpenAI) {
+    console.warn('GEMINI_API_KEY / OPENAI_API_KEY not set — pick "Browser (local)" under Settings → Voice Provider');
+  }
 
-  if (!process.env['ANTHROPIC_API_KEY']) missing.push('ANTHROPIC_API_KEY');
-  if (!process.env['GEMINI_API_KEY'] && !process.env['VITE_GEMINI_API_KEY']) missing.push('GEMINI_API_KEY');
+  // The mock agent runs without any keys
+  if (agent === 'mock') return;
 
   if (missing.length) {
     console.error(`Missing required env vars: ${missing.join(', ')}`);
@@ -62,12 +106,12 @@ function checkPrereqs(config: ClaudeConfig): void {
     process.exit(1);
   }
 
-  const cliPath = config.cliPath || 'claude';
+  const cliPath = useClaude ? config.cliPath || 'claude' : agent.split(/\s+/)[0]!;
   try {
     execSync(`which ${cliPath}`, { stdio: 'ignore' });
   } catch {
     console.error(`Error: '${cliPath}' not found on PATH.`);
-    console.error('Install Claude Code: npm install -g @anthropic-ai/claude-code');
+    if (useClaude) console.error('Install Claude Code: npm install -g @anthropic-ai/claude-code');
     process.exit(1);
   }
 }
@@ -76,23 +120,35 @@ function checkPrereqs(config: ClaudeConfig): void {
 
 loadEnv();
 
-const { port, host, noBrowser } = parseArgs(process.argv);
+const { port, host, noBrowser, agent, mockFixtures, limits } = parseArgs(process.argv);
 
 const claudeConfig: ClaudeConfig = {
   configDir: process.env['CLAUDE_CONFIG_DIR'] || '~/.claude',
   cliPath: process.env['CLAUDE_CLI_PATH'],
 };
 
-checkPrereqs(claudeConfig);
+checkPrereqs(claudeConfig, agent);
 
 // Resolve built frontend: works from both src/server/ (dev) and dist/server/ (prod)
 const __dirname = dirname(fileURLToPath(import.meta.url));
 const publicDir = join(__dirname, '..', '..', 'dist', 'public');
 
+function createAgent(): AgentBackend | undefined {
+  if (agent === 'claude') return undefined;
+  if (agent === 'mock') {
+    const speed = parseFloat(process.env['DUCK_TALK_MOCK_SPEED'] ?? '1');
+    return new MockAgent({ claude: claudeConfig, fixturesDir: mockFixtures, speed: isNaN(speed) ? 1 : speed });
+  }
+  const [command, ...args] = agent.split(/\s+/);
+  return new CliAgent({ command: command!, args, dataDir: '~/.duck_talk/agents' });
+}
+
 const serverConfig: ServerConfig = {
   claude: claudeConfig,
+  agent: createAgent(),
   cwd: process.cwd(),
   publicDir: existsSync(publicDir) ? publicDir : undefined,
+  limits,
 };
 
 const app = createApp(serverConfig);
@@ -106,6 +162,8 @@ function startServer(attemptPort: number, attempt: number): void {
     }
     console.info(`Duck Talk listening on http://${host}:${attemptPort}`);
     console.info(`Project: ${serverConfig.cwd}`);
+    console.info(`Agent: ${agent}`);
+    console.info(`Limits: ${describeLimits(limits)}`);
     if (serverConfig.publicDir) {
       console.info('Serving frontend from dist/public/');
     } else {
@@ -125,6 +183,8 @@ function startServer(attemptPort: number, attempt: number): void {
     const shutdown = () => {
       console.info('\nShutting down...');
       server.close(() => process.exit(0));
+      // Open /api/events streams would otherwise hold close() until the timeout
+      server.closeAllConnections();
       setTimeout(() => process.exit(1), 3000);
     };
     process.on('SIGINT', shutdown);
@@ -0,0 +1,124 @@
+/**
+ * Line diffs rendered as unified diff text.
+ * Inputs are single tool edits or single files, so a plain LCS table is
+ * enough; past MAX_CELLS the changed middle is shown as replaced wholesale.
+ */
+
+const CONTEXT = 3;
+const MAX_CELLS = 4_000_000;
+
+interface Op {
+  kind: ' ' | '-' | '+';
+  line: string;
+}
+
+/** `null` on either side = the file didn't exist (`/dev/null`). */
+export function unifiedDiff(path: string, before: string | null, after: string | null): string {
+  const ops = diffLines(splitLines(before ?? ''), splitLines(after ?? ''));
+  const out = [`--- ${before === null ? '/dev/null' : path}`, `+++ ${after === null ? '/dev/null' : path}`];
+
+  // 1-based line numbers each op starts at, on either side
+  const oldAt: number[] = [];
+  const newAt: number[] = [];
+  let o = 1;
+  let n = 1;
+  for (const op of ops) {
+    oldAt.push(o);
+    newAt.push(n);
+    if (op.kind !== '+') o++;
+    if (op.kind !== '-') n++;
+  }
+
+  let i = 0;
+  while (i < ops.length) {
+    if (ops[i]!.kind === ' ') {
+      i++;
+      continue;
+    }
+    // Grow the hunk while the gaps between changes fit in both contexts
+    let end = i;
+    let j = i;
+    while (j < ops.length) {
+      if (ops[j]!.kind !== ' ') {
+        end = ++j;
+        continue;
+      }
+      let k = j;
+      while (k < ops.length && ops[k]!.kind === ' ') k++;
+      if (k === ops.length || k - j > 2 * CONTEXT) break;
+      j = k;
+    }
+    const start = Math.max(0, i - CONTEXT);
+    const stop = Math.min(ops.length, end + CONTEXT);
+    const hunk = ops.slice(start, stop);
+    const oldCount = hunk.filter((op) => op.kind !== '+').length;
+    const newCount = hunk.filter((op) => op.kind !== '-').length;
+    out.push(`@@ -${range(oldAt[start]!, oldCount)} +${range(newAt[start]!, newCount)} @@`);
+    for (const op of hunk) out.push(op.kind + op.line);
+    i = stop;
+  }
+  return out.join('\n');
+}
+
+/** A hunk's `start,count`; an empty range starts on the line before, and a count of 1 is left out. */
+function range(start: number, count: number): string {
+  if (count === 0) return `${start - 1},0`;
+  return count === 1 ? String(start) : `${start},${count}`;
+}
+
+function splitLines(text: string): string[] {
+  if (!text) return [];
+  const lines = text.split('\n');
+  if (lines[lines.length - 1] === '') lines.pop();
+  return lines;
+}
+
+function diffLines(a: string[], b: string[]): Op[] {
+  // Common prefix and suffix don't need the table
+  let head = 0;
+  while (head < a.length && head < b.length && a[head] === b[head]) head++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > head && endB > head && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const ops: Op[] = a.slice(0, head).map((line) => ({ kind: ' ', line }));
+  const midA = a.slice(head, endA);
+  const midB = b.slice(head, endB);
+  const rows = midA.length;
+  const cols = midB.length;
+
+  if (rows * cols > MAX_CELLS) {
+    for (const line of midA) ops.push({ kind: '-', line });
+    for (const line of midB) ops.push({ kind: '+', line });
+  } else {
+    // lcs[r * w + c] = LCS length of midA[r..] and midB[c..]
+    const w = cols + 1;
+    const lcs = new Uint32Array((rows + 1) * w);
+    for (let r = rows - 1; r >= 0; r--) {
+      for (let c = cols - 1; c >= 0; c--) {
+        lcs[r * w + c] =
+          midA[r] === midB[c] ? lcs[(r + 1) * w + c + 1]! + 1 : Math.max(lcs[(r + 1) * w + c]!, lcs[r * w + c + 1]!);
+      }
+    }
+    let r = 0;
+    let c = 0;
+    while (r < rows && c < cols) {
+      if (midA[r] === midB[c]) {
+        ops.push({ kind: ' ', line: midA[r++]! });
+        c++;
+      } else if (lcs[(r + 1) * w + c]! >= lcs[r * w + c + 1]!) {
+        ops.push({ kind: '-', line: midA[r++]! });
+      } else {
+        ops.push({ kind: '+', line: midB[c++]! });
+      }
+    }
+    while (r < rows) ops.push({ kind: '-', line: midA[r++]! });
+    while (c < cols) ops.push({ kind: '+', line: midB[c++]! });
+  }
+
+  for (const line of a.slice(endA)) ops.push({ kind: ' ', line });
+  return ops;
+}
@@ -0,0 +1,231 @@
+/**
+ * Session export — one branch of a conversation as Markdown, JSON or a
+ * single offline HTML file. Tool results are folded under the tool call
+ * that produced them, so the output reads as a transcript.
+ */
+
+import { pathMessages, type Conversation } from '../shared/models.js';
+import type { ContentBlock, JsonDict, MessageResponse } from '../shared/types.js';
+
+export type ExportFormat = 'md' | 'json' | 'html';
+
+export const EXPORT_FORMATS: ExportFormat[] = ['md', 'json', 'html'];
+
+const CONTENT_TYPES: Record<ExportFormat, string> = {
+  md: 'text/markdown; charset=utf-8',
+  json: 'application/json; charset=utf-8',
+  html: 'text/html; charset=utf-8',
+};
+
+export interface ExportResult {
+  body: string;
+  contentType: string;
+  filename: string;
+}
+
+interface Transcript {
+  sessionId: string;
+  title: string;
+  leafUuid: string;
+  exportedAt: string;
+  messages: MessageResponse[];
+  results: Map<string, string>; // tool_use_id → result text
+}
+
+/** Export the branch ending at `leafUuid`. Null if the leaf isn't in the tree. */
+export function exportSession(
+  conv: Conversation,
+  sessionId: string,
+  leafUuid: string,
+  format: ExportFormat,
+): ExportResult | null {
+  const branch = conv.walkPath(leafUuid, { acrossCompactions: true });
+  if (branch.length === 0) return null;
+
+  const messages = pathMessages(branch);
+  const t: Transcript = {
+    sessionId,
+    title: conv.title || sessionId,
+    leafUuid,
+    exportedAt: new Date().toISOString(),
+    messages,
+    results: toolResults(messages),
+  };
+
+  const body = format === 'md' ? renderMarkdown(t) : format === 'html' ? renderHtml(t) : renderJson(t);
+  return {
+    body,
+    contentType: CONTENT_TYPES[format],
+    filename: `${slugify(t.title) || sessionId}.${format}`,
+  };
+}
+
+// --- JSON ---
+
+function renderJson(t: Transcript): string {
+  return JSON.stringify({
+    session_id: t.sessionId,
+    title: t.title,
+    leaf_uuid: t.leafUuid,
+    exported_at: t.exportedAt,
+    messages: t.messages,
+  }, null, 2);
+}
+
+// --- Markdown ---
+
+function renderMarkdown(t: Transcript): string {
+  const out: string[] = [`# ${t.title}`, '', `_Session \`${t.sessionId}\` · exported ${t.exportedAt}_`, ''];
+
+  for (const m of visibleMessages(t.messages)) {
+    if (m.compact) {
+      out.push('---', '', '_Conversation compacted here. Summary:_', '', ...blocks(m).map((b) => (b.type === 'text' ? b.text.trim() : '')), '', '---', '');
+      continue;
+    }
+    out.push(m.role === 'user' ? '## User' : '## Assistant', '');
+    for (const b of blocks(m)) {
+      switch (b.type) {
+        case 'text':
+          out.push(b.text.trim(), '');
+          break;
+        case 'thinking':
+          out.push('<details><summary>Thinking</summary>', '', b.thinking.trim(), '', '</details>', '');
+          break;
+        case 'tool_use': {
+          out.push(`**Tool: ${b.name}**`, '', fence(JSON.stringify(b.input, null, 2), 'json'), '');
+          const result = t.results.get(b.id);
+          if (result !== undefined) out.push('<details><summary>Result</summary>', '', fence(result), '', '</details>', '');
+          break;
+        }
+        default:
+          break;
+      }
+    }
+  }
+  return out.join('\n');
+}
+
+function fence(text: string, lang = ''): string {
+  // Longer fence than any backtick run inside
+  const longest = Math.max(2, ...[...text.matchAll(/`+/g)].map((m) => m[0].length));
+  const ticks = '`'.repeat(longest + 1);
+  return `${ticks}${lang}\n${text}\n${ticks}`;
+}
+
+// --- HTML ---
+
+const HTML_STYLE = `
+  body { font: 15px/1.55 -apple-system, BlinkMacSystemFont, "Segoe UI", sans-serif; background: #111; color: #e5e5e5; margin: 0; }
+  main { max-width: 760px; margin: 0 auto; padding: 32px 16px 64px; }
+  h1 { font-size: 20px; margin: 0 0 4px; }
+  .meta { color: #9ca3af; font-size: 12px; margin-bottom: 32px; }
+  .msg { margin: 16px 0; }
+  .user { background: #262626; border-radius: 16px 16px 4px 16px; padding: 8px 12px; margin-left: 15%; }
+  .text { white-space: pre-wrap; word-wrap: break-word; }
+  details { margin: 6px 0; border: 1px solid #333; border-radius: 8px; padding: 4px 10px; }
+  summary { cursor: pointer; color: #9ca3af; font-size: 13px; }
+  .tool-name { background: #333; color: #e5e5e5; border-radius: 999px; padding: 1px 8px; font-size: 12px; }
+  pre { background: #1a1a1a; border-radius: 6px; padding: 8px; overflow-x: auto; font-size: 12px; white-space: pre-wrap; }
+  .thinking { color: #a3a3a3; font-style: italic; }
+  .compact { margin: 24px 0; border-style: dashed; }
+`;
+
+function renderHtml(t: Transcript): string {
+  const body: string[] = [];
+  for (const m of visibleMessages(t.messages)) {
+    const parts: string[] = [];
+    for (const b of blocks(m)) {
+      switch (b.type) {
+        case 'text':
+          parts.push(`<div class="text">${esc(b.text.trim())}</div>`);
+          break;
+        case 'thinking':
+          parts.push(`<details><summary>Thinking</summary><div class="text thinking">${esc(b.thinking.trim())}</div></details>`);
+          break;
+        case 'tool_use': {
+          const result = t.results.get(b.id);
+          parts.push(
+            `<details><summary><span class="tool-name">${esc(b.name)}</span> ${esc(toolSummary(b.input))}</summary>` +
+            `<pre>${esc(JSON.stringify(b.input, null, 2))}</pre>` +
+            (result !== undefined ? `<pre>${esc(result)}</pre>` : '') +
+            `</details>`,
+          );
+          break;
+        }
+        default:
+          break;
+      }
+    }
+    if (m.compact) {
+      body.push(`<details class="compact"><summary>Conversation compacted here</summary>${parts.join('\n')}</details>`);
+    } else if (parts.length) {
+      body.push(`<div class="msg ${m.role}">${parts.join('\n')}</div>`);
+    }
+  }
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${esc(t.title)}</title>
+<style>${HTML_STYLE}</style>
+</head>
+<body>
+<main>
+<h1>${esc(t.title)}</h1>
+<div class="meta">Session ${esc(t.sessionId)} · exported ${esc(t.exportedAt)}</div>
+${body.join('\n')}
+</main>
+</body>
+</html>
+`;
+}
+
+function esc(s: string): string {
+  return s.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+function toolSummary(input: Record<string, unknown>): string {
+  for (const key of ['command', 'file_path', 'pattern', 'query', 'url', 'description']) {
+    const v = input[key];
+    if (typeof v === 'string' && v) return v.length > 80 ? `${v.slice(0, 80)}…` : v;
+  }
+  return '';
+}
+
+// --- Helpers ---
+
+function blocks(m: MessageResponse): ContentBlock[] {
+  return typeof m.content === 'string' ? [{ type: 'text', text: m.content }] : m.content;
+}
+
+/** Drop user turns that only carry tool results — they're shown under their call. */
+function visibleMessages(messages: MessageResponse[]): MessageResponse[] {
+  return messages.filter(
+    (m) => typeof m.content === 'string' || m.content.some((b) => b.type !== 'tool_result'),
+  );
+}
+
+function toolResults(messages: MessageResponse[]): Map<string, string> {
+  const results = new Map<string, string>();
+  for (const m of messages) {
+    if (typeof m.content === 'string') continue;
+    for (const b of m.content) {
+      if (b.type !== 'tool_result') continue;
+      results.set(b.tool_use_id, resultText(b.content));
+    }
+  }
+  return results;
+}
+
+function resultText(content: string | JsonDict[]): string {
+  if (typeof content === 'string') return content;
+  return content
+    .map((c) => (c['type'] === 'text' && typeof c['text'] === 'string' ? c['text'] : `[${String(c['type'] ?? 'block')}]`))
+    .join('\n');
+}
+
+function slugify(title: string): string {
+  return title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 60);
+}
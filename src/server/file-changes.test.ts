@@ -0,0 +1,107 @@
+import assert from 'node:assert/strict';
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, test } from 'node:test';
+import { Conversation } from '../shared/models.js';
+import type { FileChange, JsonDict, SessionEntry } from '../shared/types.js';
+import { turnFileChanges } from './file-changes.js';
+
+const SESSION_ID = '7c1d2e3f-4a5b-4c6d-8e9f-0a1b2c3d4e5f';
+const SOURCE = ['const a = 1;', 'const b = 2;', 'log(a);', 'log(b);', 'log(a);', ''].join('\n');
+
+let root: string;
+let cwd: string;
+let sessionPath: string;
+
+beforeEach(() => {
+  root = mkdtempSync(join(tmpdir(), 'duck-talk-changes-'));
+  cwd = join(root, 'project');
+  sessionPath = join(root, 'claude', 'projects', 'project', `${SESSION_ID}.jsonl`);
+  mkdirSync(join(root, 'claude', 'file-history', SESSION_ID), { recursive: true });
+});
+
+afterEach(() => {
+  rmSync(root, { recursive: true, force: true });
+});
+
+/** One turn running `calls` in order, with `backups` (file → content) in its snapshot. */
+function changes(calls: { name: string; input: JsonDict }[], backups: Record<string, string> = {}): FileChange[] {
+  const tracked: Record<string, JsonDict> = {};
+  for (const [file, content] of Object.entries(backups)) {
+    tracked[file] = { backupFileName: `${file}@v1`, version: 1 };
+    writeFileSync(join(root, 'claude', 'file-history', SESSION_ID, `${file}@v1`), content);
+  }
+  const base = { sessionId: SESSION_ID, cwd, isSidechain: false, userType: 'external', timestamp: '2026-01-01T00:00:00Z' };
+  const entries: JsonDict[] = [
+    { ...base, type: 'user', uuid: 'u1', parentUuid: null, message: { role: 'user', content: 'tidy up' } },
+    { type: 'file-history-snapshot', messageId: 'u1', snapshot: { messageId: 'u1', trackedFileBackups: tracked } },
+  ];
+  let parentUuid = 'u1';
+  calls.forEach((call, i) => {
+    const id = `toolu_${i}`;
+    entries.push(
+      { ...base, type: 'assistant', uuid: `a${i}`, parentUuid, message: { role: 'assistant', content: [{ type: 'tool_use', id, ...call }] } },
+      { ...base, type: 'user', uuid: `r${i}`, parentUuid: `a${i}`, message: { role: 'user', content: [{ type: 'tool_result', tool_use_id: id, content: 'ok' }] } },
+    );
+    parentUuid = `r${i}`;
+  });
+  const conv = new Conversation(entries as SessionEntry[]);
+  return turnFileChanges(conv, conv.walkPath(parentUuid), 'u1', sessionPath, cwd)?.changes ?? [];
+}
+
+test('an Edit is replayed on the backup with the file\'s own line numbers', () => {
+  const [change] = changes(
+    [{ name: 'Edit', input: { file_path: join(cwd, 'app.ts'), old_string: 'log(a);', new_string: 'print(a);', replace_all: true } }],
+    { 'app.ts': SOURCE },
+  );
+  assert.equal(change?.fragment, undefined);
+  assert.match(change!.diff, /^@@ -1,5 \+1,5 @@$/m);
+  assert.equal(change!.diff.split('\n').filter((l) => l.startsWith('+print(a);')).length, 2);
+});
+
+test('MultiEdit hunks build on the earlier edits, and later edits on those', () => {
+  const file = join(cwd, 'app.ts');
+  const [multi, edit] = changes(
+    [
+      {
+        name: 'MultiEdit',
+        input: {
+          file_path: file,
+          edits: [
+            { old_string: 'const b = 2;', new_string: 'const c = 2;' },
+            { old_string: 'log(b);', new_string: 'log(c);' },
+          ],
+        },
+      },
+      { name: 'Edit', input: { file_path: file, old_string: 'const c = 2;', new_string: 'const c = 3;' } },
+    ],
+    { 'app.ts': SOURCE },
+  );
+  assert.match(multi!.diff, /^-const b = 2;\n\+const c = 2;\n log\(a\);\n-log\(b\);\n\+log\(c\);$/m);
+  assert.match(edit!.diff, /^@@ -1,5 \+1,5 @@\n const a = 1;\n-const c = 2;\n\+const c = 3;$/m);
+});
+
+test('a NotebookEdit replaces the cell\'s source', () => {
+  const notebook = {
+    cells: [
+      { cell_type: 'markdown', id: 'intro', metadata: {}, source: ['# Plot\n'] },
+      { cell_type: 'code', id: 'plot', metadata: {}, source: ['import numpy as np\n', 'np.plot()'], execution_count: 1, outputs: [] },
+    ],
+    metadata: {},
+    nbformat: 4,
+    nbformat_minor: 5,
+  };
+  const [change] = changes(
+    [{ name: 'NotebookEdit', input: { notebook_path: join(cwd, 'plot.ipynb'), cell_id: 'plot', new_source: 'import numpy as np\nnp.show()' } }],
+    { 'plot.ipynb': JSON.stringify(notebook) },
+  );
+  const edited = change!.diff.split('\n').filter((l) => /^[-+] /.test(l));
+  assert.deepEqual(edited, ['-    "np.plot()"', '+    "np.show()"', '-   "execution_count": 1,', '+   "execution_count": null,']);
+});
+
+test('without a backup an Edit is a fragment of its snippets', () => {
+  const [change] = changes([{ name: 'Edit', input: { file_path: join(cwd, 'app.ts'), old_string: 'a', new_string: 'b' } }]);
+  assert.equal(change?.fragment, true);
+  assert.match(change!.diff, /^@@ -1 \+1 @@\n-a\n\+b$/m);
+});
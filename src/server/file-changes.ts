@@ -0,0 +1,283 @@
+/**
+ * Files changed per turn.
+ * A turn is a prompt and everything the agent did until the next one. Its
+ * files are the targets of the Edit/MultiEdit/Write/NotebookEdit calls on
+ * the branch that didn't fail, plus any file Claude Code's file-history
+ * snapshots started tracking during it. Diffs are rebuilt by replaying the
+ * tool inputs on the snapshot's backup of the file when ~/.claude/file-history
+ * still has it, so hunks carry the file's own line numbers. Without a backup
+ * an edit can only show its own snippets, flagged as a fragment. Edits name
+ * absolute paths while snapshots may key them relative to the project, so
+ * both are resolved against the project dir before they're compared.
+ */
+
+import { existsSync, readFileSync } from 'node:fs';
+import { basename, dirname, join, resolve } from 'node:path';
+import { isPrompt, type Conversation } from '../shared/models.js';
+import type { FileChange, FileHistorySnapshot, JsonDict, TreeEntry, TurnFiles, UserEntry } from '../shared/types.js';
+import { isAssistantEntry, isUserEntry } from '../shared/types.js';
+import { unifiedDiff } from './diff.js';
+
+/** Tool name → the input field naming the file it writes. */
+const EDIT_TOOLS: Record<string, string> = {
+  Edit: 'file_path',
+  MultiEdit: 'file_path',
+  Write: 'file_path',
+  NotebookEdit: 'notebook_path',
+};
+
+interface ToolEdit {
+  id: string;
+  tool: string;
+  path: string;
+  input: JsonDict;
+}
+
+interface Turn {
+  prompt: UserEntry;
+  uuids: Set<string>; // every entry in the turn, so any of them can name it
+  edits: ToolEdit[];
+  tracked: Record<string, JsonDict>; // file → backup, from the turn's latest snapshot
+  files: string[];
+}
+
+/** The branch's turns that changed files, without diffs. */
+export function listTurnFiles(conv: Conversation, branch: TreeEntry[], cwd: string): TurnFiles[] {
+  return collectTurns(conv, branch, cwd)
+    .filter((t) => t.files.length > 0)
+    .map((t) => ({ uuid: t.prompt.uuid, timestamp: t.prompt.timestamp ?? '', files: t.files }));
+}
+
+/** The turn containing `messageUuid` (its prompt or any later entry), with diffs. */
+export function turnFileChanges(
+  conv: Conversation,
+  branch: TreeEntry[],
+  messageUuid: string,
+  sessionPath: string,
+  cwd: string,
+): TurnFiles | null {
+  const turn = collectTurns(conv, branch, cwd).find((t) => t.uuids.has(messageUuid));
+  if (!turn) return null;
+  const historyDirs = fileHistoryDirs(conv, sessionPath);
+  return {
+    uuid: turn.prompt.uuid,
+    timestamp: turn.prompt.timestamp ?? '',
+    files: turn.files,
+    changes: toChanges(turn.edits, turn.tracked, historyDirs),
+  };
+}
+
+/**
+ * Where a session's file backups may be: ~/.claude/file-history/<id>/ for the
+ * session itself and for each session it was resumed or forked from.
+ */
+export function fileHistoryDirs(conv: Conversation, sessionPath: string): string[] {
+  const root = join(dirname(sessionPath), '..', '..', 'file-history');
+  const ids = new Set([basename(sessionPath, '.jsonl')]);
+  for (const r of conv.records) {
+    const id = (r as { sessionId?: unknown }).sessionId;
+    if (typeof id === 'string') ids.add(id);
+  }
+  return [...ids].map((id) => join(root, id)).filter((dir) => existsSync(dir));
+}
+
+// --- Helpers ---
+
+function collectTurns(conv: Conversation, branch: TreeEntry[], cwd: string): Turn[] {
+  // Snapshots are keyed by the prompt they were taken for; later ones supersede earlier
+  const snapshots = new Map<string, Record<string, JsonDict>>();
+  for (const r of conv.records) {
+    if (r.type !== 'file-history-snapshot') continue;
+    const backups = (r as FileHistorySnapshot).snapshot?.['trackedFileBackups'];
+    if (backups && typeof backups === 'object') {
+      const tracked: Record<string, JsonDict> = {};
+      for (const [file, backup] of Object.entries(backups as Record<string, JsonDict>)) {
+        tracked[resolve(cwd, file)] = backup;
+      }
+      snapshots.set((r as FileHistorySnapshot).messageId, tracked);
+    }
+  }
+
+  const turns: Turn[] = [];
+  let turn: Turn | null = null;
+  let failed = new Set<string>();
+  const close = (previous: Turn | undefined) => {
+    if (!turn) return;
+    turn.edits = turn.edits.filter((e) => !failed.has(e.id));
+    const files = new Set(turn.edits.map((e) => e.path));
+    // Tracked for the first time this turn = touched this turn
+    for (const file of Object.keys(turn.tracked)) {
+      if (!previous || !(file in previous.tracked)) files.add(file);
+    }
+    turn.files = [...files];
+  };
+
+  // The branch runs leaf → root
+  for (const e of [...branch].reverse()) {
+    if (isUserEntry(e) && isPrompt(e)) {
+      close(turns[turns.length - 2]);
+      turn = { prompt: e, uuids: new Set(), edits: [], tracked: snapshots.get(e.uuid) ?? {}, files: [] };
+      failed = new Set();
+      turns.push(turn);
+    }
+    if (!turn) continue;
+    turn.uuids.add(e.uuid);
+    if (!isUserEntry(e) && !isAssistantEntry(e)) continue;
+    const content = e.message.content;
+    if (typeof content === 'string') continue;
+    for (const b of content as JsonDict[]) {
+      if (b['type'] === 'tool_result' && b['is_error']) {
+        failed.add(String(b['tool_use_id']));
+      } else if (b['type'] === 'tool_use' && String(b['name']) in EDIT_TOOLS) {
+        const input = (b['input'] ?? {}) as JsonDict;
+        const path = input[EDIT_TOOLS[String(b['name'])]!];
+        if (typeof path === 'string') {
+          turn.edits.push({ id: String(b['id']), tool: String(b['name']), path: resolve(cwd, path), input });
+        }
+      }
+    }
+  }
+  close(turns[turns.length - 2]);
+  return turns;
+}
+
+/**
+ * Each edit diffed against the file as the backup and the turn's earlier
+ * edits left it. An edit whose starting point isn't known is shown as a
+ * fragment: its own snippets, numbered from the start of the replaced text.
+ */
+function toChanges(edits: ToolEdit[], tracked: Record<string, JsonDict>, historyDirs: string[]): FileChange[] {
+  const files = new Map<string, string | null | undefined>(); // path → content after the edits so far
+  return edits.map((edit) => {
+    const { path, tool, id } = edit;
+    const before = files.has(path) ? files.get(path) : backupOf(path, tracked, historyDirs);
+    const after = applyEdit(edit, before);
+    if (after === undefined) {
+      files.set(path, undefined); // unknown from here on
+      return { path, tool, tool_use_id: id, diff: fragmentDiff(edit), fragment: true };
+    }
+    files.set(path, after);
+    // Notebooks come back re-serialized, so compare like with like
+    const shown = tool === 'NotebookEdit' && before ? formatNotebook(JSON.parse(before)) : before;
+    // A Write without a backup is shown as creating the file
+    return { path, tool, tool_use_id: id, diff: unifiedDiff(path, shown ?? null, after) };
+  });
+}
+
+/** The file after `edit`; undefined if `before` is unknown or the edit doesn't apply to it. */
+function applyEdit({ tool, input }: ToolEdit, before: string | null | undefined): string | undefined {
+  if (tool === 'Write') return String(input['content'] ?? '');
+  if (before === undefined) return undefined;
+  if (tool === 'Edit') return replaceIn(before, input);
+  if (tool === 'MultiEdit') {
+    const edits = Array.isArray(input['edits']) ? (input['edits'] as JsonDict[]) : [];
+    let content: string | null | undefined = before;
+    for (const e of edits) content = content === undefined ? undefined : replaceIn(content, e);
+    return content ?? undefined;
+  }
+  return before === null ? undefined : editNotebook(before, input);
+}
+
+/** One Edit (or MultiEdit entry) applied; undefined if `old_string` isn't there. */
+function replaceIn(content: string | null, e: JsonDict): string | undefined {
+  const oldString = String(e['old_string'] ?? '');
+  const newString = String(e['new_string'] ?? '');
+  // An empty old_string creates the file
+  if (!oldString) return content ? undefined : newString;
+  const at = content?.indexOf(oldString) ?? -1;
+  if (!content || at < 0) return undefined;
+  if (e['replace_all'] === true) return content.split(oldString).join(newString);
+  return content.slice(0, at) + newString + content.slice(at + oldString.length);
+}
+
+interface NotebookCell {
+  cell_type: string;
+  id?: string;
+  source: string | string[];
+  [key: string]: unknown;
+}
+
+/** A NotebookEdit applied to the notebook's JSON; undefined if its cell isn't there. */
+function editNotebook(text: string, input: JsonDict): string | undefined {
+  let notebook: { cells?: NotebookCell[] };
+  try {
+    notebook = JSON.parse(text) as { cells?: NotebookCell[] };
+  } catch {
+    return undefined;
+  }
+  const cells = notebook.cells;
+  if (!Array.isArray(cells)) return undefined;
+  const cellId = typeof input['cell_id'] === 'string' ? input['cell_id'] : null;
+  const at = cellId === null ? -1 : cellIndex(cells, cellId);
+  const type = input['cell_type'] === 'markdown' || input['cell_type'] === 'code' ? input['cell_type'] : null;
+  const source = String(input['new_source'] ?? '').split(/(?<=\n)/);
+
+  switch (input['edit_mode'] ?? 'replace') {
+    case 'insert': {
+      if (cellId !== null && at < 0) return undefined;
+      const cell: NotebookCell = { cell_type: type ?? 'code', metadata: {}, source };
+      if (cell.cell_type === 'code') Object.assign(cell, { execution_count: null, outputs: [] });
+      // After the named cell, or at the top
+      cells.splice(at + 1, 0, cell);
+      break;
+    }
+    case 'delete':
+      if (at < 0) return undefined;
+      cells.splice(at, 1);
+      break;
+    default: {
+      const cell = cells[at];
+      if (!cell) return undefined;
+      cell.source = source;
+      if (type) cell.cell_type = type;
+      if (cell.cell_type === 'code') {
+        Object.assign(cell, { execution_count: null, outputs: [] });
+      } else {
+        delete cell['execution_count'];
+        delete cell['outputs'];
+      }
+    }
+  }
+  return formatNotebook(notebook);
+}
+
+/** By id, or `cell-<n>` for cells written before notebooks had ids. */
+function cellIndex(cells: NotebookCell[], cellId: string): number {
+  const byId = cells.findIndex((c) => c.id === cellId);
+  if (byId >= 0) return byId;
+  const n = /^cell-(\d+)$/.exec(cellId);
+  return n && Number(n[1]) < cells.length ? Number(n[1]) : -1;
+}
+
+/** Indented the way Jupyter writes notebooks. */
+function formatNotebook(notebook: unknown): string {
+  return JSON.stringify(notebook, null, 1) + '\n';
+}
+
+/** Only what the tool input itself says: the replaced snippets, or the new cell source. */
+function fragmentDiff({ tool, input, path }: ToolEdit): string {
+  if (tool === 'MultiEdit') {
+    const edits = Array.isArray(input['edits']) ? (input['edits'] as JsonDict[]) : [];
+    return edits
+      .map((e, i) => {
+        const d = unifiedDiff(path, String(e['old_string'] ?? ''), String(e['new_string'] ?? ''));
+        return i === 0 ? d : d.split('\n').slice(2).join('\n');
+      })
+      .join('\n');
+  }
+  if (tool === 'NotebookEdit') return unifiedDiff(path, null, String(input['new_source'] ?? ''));
+  return unifiedDiff(path, String(input['old_string'] ?? ''), String(input['new_string'] ?? ''));
+}
+
+/**
+ * The file's content when the turn started: null if it didn't exist yet,
+ * undefined if it isn't tracked or its backup is gone.
+ */
+function backupOf(path: string, tracked: Record<string, JsonDict>, historyDirs: string[]): string | null | undefined {
+  const backup = tracked[path];
+  if (!backup) return undefined;
+  const name = backup['backupFileName'];
+  if (typeof name !== 'string') return null;
+  const file = historyDirs.map((dir) => join(dir, name)).find((f) => existsSync(f));
+  return file ? readFileSync(file, 'utf-8') : undefined;
+}
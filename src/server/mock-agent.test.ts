@@ -0,0 +1,133 @@
+import assert from 'node:assert/strict';
+import { mkdtempSync, readFileSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, mock, test } from 'node:test';
+import type { JsonDict } from '../shared/types.js';
+import type { Chunk, ConverseOptions } from './agent.js';
+import { Claude, type ClaudeConfig } from './claude-client.js';
+import { projectDir } from './claude-sessions.js';
+import { MockAgent } from './mock-agent.js';
+
+const CWD = '/work/duck-talk';
+
+let root: string;
+let claude: ClaudeConfig;
+
+beforeEach(() => {
+  root = mkdtempSync(join(tmpdir(), 'duck-talk-mock-'));
+  claude = { configDir: join(root, 'claude'), indexDir: join(root, 'index') };
+  for (const method of ['info', 'warn'] as const) mock.method(console, method, () => {});
+});
+
+afterEach(() => {
+  mock.restoreAll();
+  rmSync(root, { recursive: true, force: true });
+});
+
+async function run(agent: MockAgent, message: string, opts: Partial<ConverseOptions> = {}): Promise<Chunk[]> {
+  const chunks: Chunk[] = [];
+  for await (const chunk of agent.converse(message, { model: 'mock', systemPrompt: '', cwd: CWD, ...opts })) {
+    chunks.push(chunk);
+  }
+  return chunks;
+}
+
+function sessionOf(chunks: Chunk[]): string {
+  const first = chunks[0];
+  assert.equal(first?.kind, 'session');
+  return first.sessionId;
+}
+
+function textOf(chunks: Chunk[]): string {
+  return chunks.map((c) => (c.kind === 'text' ? c.text : '')).join('');
+}
+
+function readEntries(sessionId: string): JsonDict[] {
+  const path = join(projectDir(claude, CWD), `${sessionId}.jsonl`);
+  return readFileSync(path, 'utf-8').trim().split('\n').map((line) => JSON.parse(line) as JsonDict);
+}
+
+test('replays the matching script as a chunk stream', async () => {
+  const chunks = await run(new MockAgent({ claude, speed: 0 }), "What's the latest commit?");
+
+  sessionOf(chunks);
+  assert.equal(
+    textOf(chunks),
+    'Let me check the git log for you.The latest commit on main is `72c7f28` with the message **"Added sounds"**.' +
+      '\n\nThis commit appears to have added sound files to the project. Would you like me to look at what files were changed in this commit?',
+  );
+  const toolStart = chunks.find((c) => c.kind === 'tool_start');
+  assert.deepEqual(toolStart && { name: toolStart.name }, { name: 'Bash' });
+  const input = chunks.map((c) => (c.kind === 'tool_input' ? c.partialJson : '')).join('');
+  assert.deepEqual(JSON.parse(input), { command: 'git log --oneline -1' });
+  const blocks = chunks.flatMap((c) => (c.kind === 'block' ? [c.block['type']] : []));
+  assert.deepEqual(blocks, ['tool_use', 'tool_result']);
+  const last = chunks[chunks.length - 1];
+  assert.equal(last?.kind, 'result');
+  assert.equal(last.costUsd, 0.0123);
+  assert.equal(last.error, null);
+});
+
+test('writes the run as a linked Claude Code transcript', async () => {
+  const sessionId = sessionOf(await run(new MockAgent({ claude, speed: 0 }), "What's the latest commit?"));
+  const entries = readEntries(sessionId);
+
+  const shapes = entries.map((e) => {
+    const content = (e['message'] as { content: string | JsonDict[] }).content;
+    return `${e['type']}:${typeof content === 'string' ? 'prompt' : content[0]!['type']}`;
+  });
+  assert.deepEqual(shapes, [
+    'user:prompt',
+    'assistant:thinking',
+    'assistant:text',
+    'assistant:tool_use',
+    'user:tool_result',
+    'assistant:text',
+  ]);
+  entries.forEach((e, i) => {
+    assert.equal(e['sessionId'], sessionId);
+    assert.equal(e['cwd'], CWD);
+    assert.equal(e['parentUuid'], i === 0 ? null : entries[i - 1]!['uuid']);
+  });
+  assert.equal(entries[4]!['sourceToolAssistantUUID'], entries[3]!['uuid']);
+});
+
+test('resuming appends under the active leaf', async () => {
+  const agent = new MockAgent({ claude, speed: 0 });
+  const sessionId = sessionOf(await run(agent, "What's the latest commit?"));
+  const before = readEntries(sessionId);
+
+  assert.equal(sessionOf(await run(agent, 'Show me the diff', { sessionId })), sessionId);
+  const after = readEntries(sessionId);
+  const prompt = after[before.length]!;
+  assert.equal((prompt['message'] as { content: string }).content, 'Show me the diff');
+  assert.equal(prompt['parentUuid'], before[before.length - 1]!['uuid']);
+});
+
+test('mock sessions are listed and loaded by the Claude agent', async () => {
+  const sessionId = sessionOf(await run(new MockAgent({ claude, speed: 0 }), "What's the latest commit?"));
+  const client = new Claude(claude);
+
+  assert.deepEqual(client.listSessions(CWD).map((s) => s.id), [sessionId]);
+  assert.equal(client.sessionFile(CWD, sessionId), join(projectDir(claude, CWD), `${sessionId}.jsonl`));
+  const messages = client.loadMessages(CWD, sessionId);
+  assert.deepEqual(messages?.map((m) => m.uuid), readEntries(sessionId).map((e) => e['uuid']));
+  assert.equal(messages?.[0]?.content, "What's the latest commit?");
+});
+
+test('a denied tool call is answered with a refusal', async () => {
+  const prompts: string[] = [];
+  const chunks = await run(new MockAgent({ claude, speed: 0 }), "What's the latest commit?", {
+    askPermission: async (prompt) => {
+      prompts.push(prompt.toolName);
+      return 'deny';
+    },
+  });
+
+  assert.deepEqual(prompts, ['Bash']);
+  const result = chunks.find((c) => c.kind === 'block' && c.block['type'] === 'tool_result');
+  assert.equal(result?.kind === 'block' && result.block['is_error'], true);
+  assert.ok(textOf(chunks).endsWith("Okay, I won't run that."));
+  assert.equal(chunks.filter((c) => c.kind === 'result').length, 1);
+});
@@ -0,0 +1,279 @@
+/**
+ * Scripted AgentBackend for offline UI work and CI — no Claude CLI, no API key.
+ *
+ * Each instruction picks the first script whose `match` regex hits (falling
+ * back to the last script without one) and replays its steps with
+ * human-ish timing: text in word-sized chunks, tool input as partial JSON,
+ * a pause before each tool result.
+ *
+ * Sessions are written in Claude Code's JSONL format into the same project
+ * dir the real agent uses, so listing, tree navigation and rewinding work
+ * end-to-end against mock runs.
+ *
+ * Fixture files (`*.json`, one script or an array) are tried before the
+ * built-in scripts in mock-scripts.ts.
+ */
+
+import { randomUUID } from 'node:crypto';
+import { appendFileSync, existsSync, mkdirSync, readdirSync, readFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { Conversation } from '../shared/models.js';
+import type {
+  AssistantEntry,
+  ContentBlock,
+  JsonDict,
+  UserEntry,
+} from '../shared/types.js';
+import type { AgentBackend, Chunk, ConverseOptions } from './agent.js';
+import { ALLOWED_TOOLS, type ClaudeConfig } from './claude-client.js';
+import { ClaudeSessions, projectDir } from './claude-sessions.js';
+import { MOCK_SCRIPTS } from './mock-scripts.js';
+
+// --- Scripts ---
+
+export type MockStep =
+  | { type: 'text'; text: string } // "{instruction}" is replaced with the user's message
+  | { type: 'thinking'; thinking: string }
+  | { type: 'tool_use'; name: string; input: Record<string, unknown>; id?: string }
+  | { type: 'tool_result'; content: string; is_error?: boolean; ms?: number } // answers the last tool_use
+  | { type: 'pause'; ms: number }
+  | { type: 'result'; cost_usd?: number; error?: string };
+
+export interface MockScript {
+  name: string;
+  match?: string; // case-insensitive regex against the instruction; unset = fallback
+  steps: MockStep[];
+}
+
+export interface MockAgentConfig {
+  claude: ClaudeConfig; // sessions go where Claude Code would put them
+  fixturesDir?: string;
+  speed?: number; // timing multiplier; 0 = no delays (tests)
+}
+
+const FIRST_TOKEN_MS = 600;
+const TEXT_CHUNK_MS = 45;
+const INPUT_CHUNK_MS = 20;
+const TOOL_RESULT_MS = 700;
+
+export function loadMockScripts(dir: string): MockScript[] {
+  if (!existsSync(dir)) {
+    console.warn(`mock: fixtures dir not found: ${dir}`);
+    return [];
+  }
+  const scripts: MockScript[] = [];
+  for (const f of readdirSync(dir).filter((f) => f.endsWith('.json')).sort()) {
+    try {
+      const parsed = JSON.parse(readFileSync(join(dir, f), 'utf-8')) as MockScript | MockScript[];
+      for (const script of Array.isArray(parsed) ? parsed : [parsed]) {
+        if (!Array.isArray(script.steps)) throw new Error('missing steps[]');
+        scripts.push({ ...script, name: script.name || f });
+      }
+    } catch (e) {
+      console.warn(`mock: skipping fixture ${f}:`, e instanceof Error ? e.message : e);
+    }
+  }
+  console.info(`mock: loaded ${scripts.length} scripts from ${dir}`);
+  return scripts;
+}
+
+export class MockAgent extends ClaudeSessions implements AgentBackend {
+  readonly name = 'mock';
+  private readonly config: MockAgentConfig;
+  private readonly scripts: MockScript[];
+
+  constructor(config: MockAgentConfig) {
+    super(config.claude);
+    this.config = config;
+    this.scripts = [
+      ...(config.fixturesDir ? loadMockScripts(config.fixturesDir) : []),
+      ...MOCK_SCRIPTS,
+    ];
+  }
+
+  private pick(message: string): MockScript {
+    for (const script of this.scripts) {
+      if (script.match && new RegExp(script.match, 'i').test(message)) return script;
+    }
+    for (let i = this.scripts.length - 1; i >= 0; i--) {
+      if (!this.scripts[i]!.match) return this.scripts[i]!;
+    }
+    return MOCK_SCRIPTS[MOCK_SCRIPTS.length - 1]!;
+  }
+
+  async *converse(message: string, opts: ConverseOptions): AsyncGenerator<Chunk> {
+    const t0 = Date.now();
+    const signal = opts.abortController?.signal;
+    const speed = this.config.speed ?? 1;
+    const wait = (ms: number) => sleep(ms * speed, signal);
+
+    const script = this.pick(message);
+    console.info(`mock query (${script.name}): ${message.slice(0, 120)}`);
+
+    // Resuming (or a fork the routes already copied) appends under the active leaf
+    const sessionId = opts.sessionId ?? randomUUID();
+    const dir = projectDir(this.config.claude, opts.cwd);
+    mkdirSync(dir, { recursive: true });
+    const path = join(dir, `${sessionId}.jsonl`);
+    let parentUuid: string | null = existsSync(path)
+      ? Conversation.load(path).activeLeaf?.uuid ?? null
+      : null;
+
+    const base = { sessionId, cwd: opts.cwd, isSidechain: false, userType: 'external', version: 'mock' };
+    const write = (entry: UserEntry | AssistantEntry) => {
+      appendFileSync(path, JSON.stringify(entry) + '\n');
+      parentUuid = entry.uuid;
+      return entry.uuid;
+    };
+    const writeUser = (content: string | JsonDict[], extra: JsonDict = {}) =>
+      write({
+        ...base,
+        ...extra,
+        type: 'user',
+        uuid: randomUUID(),
+        parentUuid,
+        timestamp: new Date().toISOString(),
+        message: { role: 'user', content },
+      });
+    const writeAssistant = (block: ContentBlock) =>
+      write({
+        ...base,
+        type: 'assistant',
+        uuid: randomUUID(),
+        parentUuid: parentUuid!,
+        timestamp: new Date().toISOString(),
+        message: {
+          id: `msg_mock_${randomUUID().slice(0, 8)}`,
+          model: opts.model,
+          role: 'assistant',
+          type: 'message',
+          content: [block],
+          stop_reason: block.type === 'tool_use' ? 'tool_use' : null,
+          usage: { input_tokens: estimateTokens(message), output_tokens: estimateTokens(JSON.stringify(block)) },
+        },
+      });
+
+    writeUser(message);
+    yield { kind: 'session', sessionId };
+    await wait(FIRST_TOKEN_MS);
+
+    let lastTool: { id: string; assistantUuid: string } | null = null;
+    let denied = false;
+
+    for (const step of script.steps) {
+      if (signal?.aborted) return;
+
+      switch (step.type) {
+        case 'pause':
+          await wait(step.ms);
+          break;
+
+        case 'thinking':
+          writeAssistant({ type: 'thinking', thinking: step.thinking });
+          await wait(TEXT_CHUNK_MS * 4);
+          break;
+
+        case 'text': {
+          const text = step.text.replaceAll('{instruction}', message);
+          for (const piece of text.match(/\S+\s*|\s+/g) ?? []) {
+            if (signal?.aborted) return;
+            yield { kind: 'text', text: piece };
+            await wait(TEXT_CHUNK_MS);
+          }
+          writeAssistant({ type: 'text', text });
+          break;
+        }
+
+        case 'tool_use': {
+          const id = step.id ?? `toolu_mock_${randomUUID().slice(0, 12)}`;
+          yield { kind: 'tool_start', id, name: step.name };
+          const json = JSON.stringify(step.input);
+          for (let i = 0; i < json.length; i += 12) {
+            if (signal?.aborted) return;
+            yield { kind: 'tool_input', id, partialJson: json.slice(i, i + 12) };
+            await wait(INPUT_CHUNK_MS);
+          }
+          yield { kind: 'tool_end', id };
+          const block = { type: 'tool_use' as const, id, name: step.name, input: step.input };
+          yield { kind: 'block', block };
+          lastTool = { id, assistantUuid: writeAssistant(block) };
+
+          if (
+            opts.askPermission &&
+            opts.permissionMode !== 'bypassPermissions' &&
+            // Same allow-list the real agent runs with — everything else asks first
+            !ALLOWED_TOOLS.includes(step.name)
+          ) {
+            const decision = await opts.askPermission({
+              toolName: step.name,
+              input: step.input,
+              toolUseId: id,
+              signal: signal ?? new AbortController().signal,
+            });
+            console.info(`mock permission: ${step.name} (${id}) -> ${decision}`);
+            denied = decision === 'deny';
+          }
+          break;
+        }
+
+        case 'tool_result': {
+          if (!lastTool) break;
+          await wait(step.ms ?? TOOL_RESULT_MS);
+          if (signal?.aborted) return;
+          const content = denied ? 'The user denied this tool call.' : step.content;
+          const block = {
+            type: 'tool_result' as const,
+            tool_use_id: lastTool.id,
+            content,
+            ...((denied || step.is_error) && { is_error: true }),
+          };
+          yield { kind: 'block', block };
+          writeUser([block], { toolUseResult: content, sourceToolAssistantUUID: lastTool.assistantUuid });
+          lastTool = null;
+          break;
+        }
+
+        case 'result':
+          if (denied) break; // replaced by the refusal below
+          yield result(sessionId, t0, step.cost_usd ?? null, step.error ?? null);
+          return;
+      }
+
+      if (denied && step.type === 'tool_result') {
+        const text = "Okay, I won't run that.";
+        yield { kind: 'text', text };
+        writeAssistant({ type: 'text', text });
+        yield result(sessionId, t0, 0.001, null);
+        return;
+      }
+    }
+
+    if (!signal?.aborted) yield result(sessionId, t0, null, null);
+  }
+}
+
+// --- Helpers ---
+
+function result(sessionId: string, t0: number, costUsd: number | null, error: string | null): Chunk {
+  const durationMs = Date.now() - t0;
+  console.info(`mock result: session=${sessionId}, cost=$${costUsd}, ${durationMs}ms, error=${error}`);
+  return { kind: 'result', sessionId, costUsd, durationMs, error };
+}
+
+/** Rough chars/4 — enough for usage totals to look plausible. */
+function estimateTokens(text: string): number {
+  return Math.max(1, Math.ceil(text.length / 4));
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  if (ms <= 0 || signal?.aborted) return Promise.resolve();
+  return new Promise((resolve) => {
+    const timer = setTimeout(done, ms);
+    function done() {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', done);
+      resolve();
+    }
+    signal?.addEventListener('abort', done, { once: true });
+  });
+}
@@ -0,0 +1,83 @@
+/**
+ * Built-in scripts for the mock agent.
+ * Seeded from the new-ui SCENARIOS conversation so the live page shows the
+ * same shapes (thinking, Bash calls, multi-line results) it was designed on.
+ */
+
+import type { MockScript } from './mock-agent.js';
+
+export const MOCK_SCRIPTS: MockScript[] = [
+  {
+    name: 'latest-commit',
+    match: 'commit|git log',
+    steps: [
+      { type: 'thinking', thinking: 'The user wants to know the latest commit. I should use git log to check.' },
+      { type: 'text', text: 'Let me check the git log for you.' },
+      { type: 'tool_use', name: 'Bash', input: { command: 'git log --oneline -1' } },
+      { type: 'tool_result', content: '72c7f28 Added sounds' },
+      {
+        type: 'text',
+        text: 'The latest commit on main is `72c7f28` with the message **"Added sounds"**.\n\nThis commit appears to have added sound files to the project. Would you like me to look at what files were changed in this commit?',
+      },
+      { type: 'result', cost_usd: 0.0123 },
+    ],
+  },
+  {
+    name: 'diff',
+    match: 'diff|changed',
+    steps: [
+      { type: 'text', text: "Here's the diff for that commit:" },
+      { type: 'tool_use', name: 'Bash', input: { command: 'git diff HEAD~1 --stat' } },
+      {
+        type: 'tool_result',
+        content: ' src/routes/live/sounds/approval.mp3 | Bin 0 -> 12543 bytes\n src/routes/live/sounds/reject.mp3   | Bin 0 -> 8921 bytes\n 2 files changed, 0 insertions(+), 0 deletions(-)',
+      },
+      {
+        type: 'text',
+        text: 'The commit added two sound files:\n\n- `approval.mp3` (12.5 KB) — likely played when an instruction is approved\n- `reject.mp3` (8.9 KB) — likely played when an instruction is rejected\n\nBoth are in the `src/routes/live/sounds/` directory, which makes sense for the voice approval flow.',
+      },
+      { type: 'result', cost_usd: 0.0148 },
+    ],
+  },
+  {
+    name: 'build',
+    match: 'build|typescript|type error',
+    steps: [
+      { type: 'text', text: 'Running the build to check for any TypeScript errors. The output will show if there are any compilation issues...' },
+      { type: 'tool_use', name: 'Bash', input: { command: 'npm run build' } },
+      {
+        type: 'tool_result',
+        content: '> duck-talk@0.1.0 build\n> tsc -p tsconfig.server.json && vite build\n\n✓ 214 modules transformed.\n✓ built in 2.41s',
+        ms: 2500,
+      },
+      { type: 'text', text: 'The build passed with no TypeScript errors.' },
+      { type: 'result', cost_usd: 0.0097 },
+    ],
+  },
+  {
+    name: 'read-file',
+    match: 'read|readme|open',
+    steps: [
+      { type: 'tool_use', name: 'Read', input: { file_path: 'README.md', limit: 20 } },
+      { type: 'tool_result', content: '# Duck Talk\n\nTalk to Claude Code. Hands-free.\n' },
+      { type: 'text', text: 'The README introduces Duck Talk as a hands-free voice interface for Claude Code.' },
+      { type: 'result', cost_usd: 0.0061 },
+    ],
+  },
+  {
+    name: 'error',
+    match: 'simulate (an )?error',
+    steps: [
+      { type: 'text', text: 'Starting on that now.' },
+      { type: 'pause', ms: 800 },
+      { type: 'result', error: 'Mock agent: simulated failure' },
+    ],
+  },
+  {
+    name: 'echo',
+    steps: [
+      { type: 'text', text: 'This is the mock agent. You said: "{instruction}". Nothing was run.' },
+      { type: 'result', cost_usd: 0.001 },
+    ],
+  },
+];
@@ -0,0 +1,61 @@
+/**
+ * OpenAI calls made on the page's behalf, so OPENAI_API_KEY never leaves
+ * the server. The Realtime sockets connect with short-lived client secrets
+ * minted here, one per dial, and the review-mode readback is synthesized
+ * here as raw PCM.
+ */
+
+const API_URL = 'https://api.openai.com/v1';
+const REALTIME_MODEL = 'gpt-realtime';
+const SPEECH_MODEL = 'gpt-4o-mini-tts';
+const VOICE = 'marin';
+/** A secret only has to last until its socket opens. */
+const SECRET_TTL_SECONDS = 60;
+
+export interface ClientSecret {
+  value: string;
+  expires_at: number; // unix seconds
+}
+
+export function openaiApiKey(): string | null {
+  return process.env['OPENAI_API_KEY'] || process.env['VITE_OPENAI_API_KEY'] || null;
+}
+
+/** A client secret a browser can open one Realtime socket with. */
+export async function createClientSecret(apiKey: string): Promise<ClientSecret> {
+  const res = await post(apiKey, '/realtime/client_secrets', {
+    expires_after: { anchor: 'created_at', seconds: SECRET_TTL_SECONDS },
+    session: { type: 'realtime', model: REALTIME_MODEL },
+  });
+  const body = (await res.json()) as Partial<ClientSecret>;
+  if (typeof body.value !== 'string') {
+    throw { status: 502, message: 'OpenAI returned no client secret' };
+  }
+  return { value: body.value, expires_at: body.expires_at ?? 0 };
+}
+
+/** `text` read aloud: 24kHz 16-bit mono PCM. */
+export async function synthesizeSpeech(apiKey: string, text: string): Promise<Buffer> {
+  const res = await post(apiKey, '/audio/speech', {
+    model: SPEECH_MODEL,
+    voice: VOICE,
+    input: text,
+    response_format: 'pcm',
+  });
+  return Buffer.from(await res.arrayBuffer());
+}
+
+// --- Helpers ---
+
+async function post(apiKey: string, path: string, body: unknown): Promise<globalThis.Response> {
+  const res = await fetch(`${API_URL}${path}`, {
+    method: 'POST',
+    headers: { Authorization: `Bearer ${apiKey}`, 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+  if (!res.ok) {
+    const detail = await res.text().catch(() => '');
+    throw { status: 502, message: `OpenAI ${path} failed (${res.status}): ${detail.slice(0, 300)}` };
+  }
+  return res;
+}
@@ -0,0 +1,111 @@
+import assert from 'node:assert/strict';
+import { existsSync, mkdirSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, mock, test } from 'node:test';
+import { Conversation } from '../shared/models.js';
+import type { JsonDict, SessionEntry } from '../shared/types.js';
+import { applyRewind, planRewind } from './rewind.js';
+
+const SESSION_ID = '3f2b6c1e-8d4a-4c7b-9e2f-1a5d6b7c8e9f';
+
+let root: string;
+let cwd: string;
+let sessionPath: string;
+
+beforeEach(() => {
+  root = mkdtempSync(join(tmpdir(), 'duck-talk-rewind-'));
+  cwd = join(root, 'project');
+  sessionPath = join(root, 'claude', 'projects', 'project', `${SESSION_ID}.jsonl`);
+  mkdirSync(cwd);
+  mkdirSync(join(root, 'claude', 'file-history', SESSION_ID), { recursive: true });
+  for (const method of ['warn', 'error'] as const) mock.method(console, method, () => {});
+});
+
+afterEach(() => {
+  mock.restoreAll();
+  rmSync(root, { recursive: true, force: true });
+});
+
+/** Write a file into the project. */
+function put(file: string, content: string) {
+  writeFileSync(join(cwd, file), content);
+}
+
+function read(file: string): string | null {
+  const path = join(cwd, file);
+  return existsSync(path) ? readFileSync(path, 'utf-8') : null;
+}
+
+/**
+ * A session whose second turn touched `files` — each maps to the content
+ * backed up before the turn, or null if the file didn't exist yet.
+ */
+function session(files: Record<string, string | null>): Conversation {
+  const backups: Record<string, JsonDict> = {};
+  for (const [file, content] of Object.entries(files)) {
+    let backupFileName: string | null = null;
+    if (content !== null) {
+      backupFileName = `${Object.keys(backups).length}@v1`;
+      writeFileSync(join(root, 'claude', 'file-history', SESSION_ID, backupFileName), content);
+    }
+    backups[file] = { backupFileName, version: 1 };
+  }
+  const base = { sessionId: SESSION_ID, cwd, isSidechain: false, userType: 'external', timestamp: '2026-01-01T00:00:00Z' };
+  return new Conversation([
+    { ...base, type: 'user', uuid: 'u1', parentUuid: null, message: { role: 'user', content: 'first' } },
+    { ...base, type: 'user', uuid: 'u2', parentUuid: 'u1', message: { role: 'user', content: 'second' } },
+    { type: 'file-history-snapshot', messageId: 'u2', snapshot: { messageId: 'u2', trackedFileBackups: backups } },
+  ] as SessionEntry[]);
+}
+
+test('plans restores and deletes, leaving outside files alone', () => {
+  put('edited.ts', 'after\n');
+  put('created.ts', 'new\n');
+  put('same.ts', 'unchanged\n');
+  const conv = session({ 'edited.ts': 'before\n', 'created.ts': null, 'same.ts': 'unchanged\n', '../elsewhere.ts': 'x' });
+
+  const plan = planRewind(conv, sessionPath, 'u1', cwd);
+  assert.ok(plan);
+  assert.deepEqual(
+    plan.files.map((f) => [f.path, f.action]),
+    [[join(cwd, 'edited.ts'), 'restore'], [join(cwd, 'created.ts'), 'delete']],
+  );
+  assert.match(plan.files[0]!.diff, /^-after\n\+before$/m);
+  assert.deepEqual(plan.outside, [join(root, 'elsewhere.ts')]);
+  assert.deepEqual(plan.missing, []);
+  assert.equal(planRewind(conv, sessionPath, 'nope', cwd), null);
+});
+
+test('applies the plan to the tree', () => {
+  put('edited.ts', 'after\n');
+  put('created.ts', 'new\n');
+  const conv = session({ 'edited.ts': 'before\n', 'created.ts': null, 'gone.ts': 'restored\n' });
+
+  const written = applyRewind(conv, sessionPath, 'u1', cwd);
+  assert.equal(written.length, 3);
+  assert.equal(read('edited.ts'), 'before\n');
+  assert.equal(read('created.ts'), null);
+  assert.equal(read('gone.ts'), 'restored\n');
+  assert.deepEqual(planRewind(conv, sessionPath, 'u1', cwd)?.files, []);
+});
+
+test('a failed write puts back the files already rewound', () => {
+  put('edited.ts', 'after\n');
+  put('blocker', 'a file where a directory should be');
+  const conv = session({ 'edited.ts': 'before\n', 'blocker/nested.ts': 'nested\n' });
+
+  assert.throws(() => applyRewind(conv, sessionPath, 'u1', cwd), { status: 500 });
+  assert.equal(read('edited.ts'), 'after\n');
+  assert.equal(read('blocker'), 'a file where a directory should be');
+});
+
+test('reports changed files whose backup is gone', () => {
+  put('edited.ts', 'after\n');
+  const conv = session({ 'edited.ts': 'before\n' });
+  rmSync(join(root, 'claude', 'file-history', SESSION_ID, '0@v1'));
+
+  const plan = planRewind(conv, sessionPath, 'u1', cwd);
+  assert.deepEqual(plan?.files, []);
+  assert.deepEqual(plan?.missing, [join(cwd, 'edited.ts')]);
+});
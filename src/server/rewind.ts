@@ -0,0 +1,143 @@
+/**
+ * Rewinding the working tree along with the conversation.
+ * Claude Code backs up every file it is about to edit into
+ * ~/.claude/file-history/ and lists the backups in file-history-snapshot
+ * entries. A file's state at a leaf is its earliest backup written after
+ * the leaf — that copy was taken before anything later touched it. A null
+ * backup means the file didn't exist yet. Edits made outside Claude Code
+ * (Bash, the user's editor) aren't tracked and are left alone, and so is
+ * anything a snapshot names outside the project dir.
+ */
+
+import { existsSync, mkdirSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { dirname, isAbsolute, join, relative, resolve, sep } from 'node:path';
+import type { Conversation } from '../shared/models.js';
+import type { FileHistorySnapshot, JsonDict, RewindPlan } from '../shared/types.js';
+import { unifiedDiff } from './diff.js';
+import { fileHistoryDirs } from './file-changes.js';
+
+interface Target {
+  path: string;
+  content: Buffer | null; // null = delete
+  current: Buffer | null;
+}
+
+/** What rewinding the tree to `leafUuid` would change; null if the leaf isn't in the session. */
+export function planRewind(conv: Conversation, sessionPath: string, leafUuid: string, cwd: string): RewindPlan | null {
+  const found = rewindTargets(conv, sessionPath, leafUuid, cwd);
+  if (!found) return null;
+  return {
+    leaf_uuid: leafUuid,
+    files: found.targets.map((t) => ({
+      path: t.path,
+      action: t.content ? 'restore' : 'delete',
+      diff: isBinary(t.current) || isBinary(t.content)
+        ? `Binary file ${t.path} differs`
+        : unifiedDiff(t.path, t.current?.toString('utf-8') ?? null, t.content?.toString('utf-8') ?? null),
+    })),
+    missing: found.missing,
+    outside: found.outside,
+  };
+}
+
+/**
+ * Put the tree back to `leafUuid`. Returns the paths written or deleted.
+ * All or nothing: if a write fails, the files already rewound are put back.
+ */
+export function applyRewind(conv: Conversation, sessionPath: string, leafUuid: string, cwd: string): string[] {
+  const found = rewindTargets(conv, sessionPath, leafUuid, cwd);
+  if (!found) {
+    throw { status: 404, message: `Leaf not found: ${leafUuid}` };
+  }
+  const done: Target[] = [];
+  try {
+    for (const t of found.targets) {
+      writeContent(t.path, t.content);
+      done.push(t);
+    }
+  } catch (e) {
+    for (const t of done.reverse()) {
+      try {
+        writeContent(t.path, t.current);
+      } catch (undo) {
+        console.error(`rewind: couldn't put back ${t.path}:`, undo);
+      }
+    }
+    throw { status: 500, message: `Rewind failed, files left as they were: ${e instanceof Error ? e.message : e}` };
+  }
+  if (found.missing.length) {
+    console.warn(`rewind: no backup left for ${found.missing.join(', ')}`);
+  }
+  if (found.outside.length) {
+    console.warn(`rewind: left alone outside the project: ${found.outside.join(', ')}`);
+  }
+  return found.targets.map((t) => t.path);
+}
+
+// --- Helpers ---
+
+function rewindTargets(
+  conv: Conversation,
+  sessionPath: string,
+  leafUuid: string,
+  cwd: string,
+): { targets: Target[]; missing: string[]; outside: string[] } | null {
+  let at = -1;
+  conv.records.forEach((r, i) => {
+    if ((r as { uuid?: unknown }).uuid === leafUuid) at = i;
+  });
+  if (at < 0) return null;
+
+  const historyDirs = fileHistoryDirs(conv, sessionPath);
+  const seen = new Set<string>();
+  const targets: Target[] = [];
+  const missing: string[] = [];
+  const outside: string[] = [];
+  for (const r of conv.records.slice(at + 1)) {
+    if (r.type !== 'file-history-snapshot') continue;
+    const backups = ((r as FileHistorySnapshot).snapshot?.['trackedFileBackups'] ?? {}) as Record<string, JsonDict>;
+    for (const [file, backup] of Object.entries(backups)) {
+      const path = resolve(cwd, file);
+      if (seen.has(path)) continue;
+      seen.add(path);
+      if (!isInside(cwd, path)) {
+        outside.push(path);
+        continue;
+      }
+
+      const name = backup['backupFileName'];
+      let content: Buffer | null = null;
+      if (typeof name === 'string') {
+        const stored = historyDirs.map((dir) => join(dir, name)).find((f) => existsSync(f));
+        if (!stored) {
+          missing.push(path);
+          continue;
+        }
+        content = readFileSync(stored);
+      }
+      const current = existsSync(path) ? readFileSync(path) : null;
+      const same = content && current ? content.equals(current) : content === current;
+      if (!same) targets.push({ path, content, current });
+    }
+  }
+  return { targets, missing, outside };
+}
+
+function isInside(dir: string, path: string): boolean {
+  const rel = relative(resolve(dir), path);
+  return rel !== '' && rel !== '..' && !rel.startsWith(`..${sep}`) && !isAbsolute(rel);
+}
+
+/** null = delete */
+function writeContent(path: string, content: Buffer | null): void {
+  if (content) {
+    mkdirSync(dirname(path), { recursive: true });
+    writeFileSync(path, content);
+  } else {
+    rmSync(path, { force: true });
+  }
+}
+
+function isBinary(buf: Buffer | null): boolean {
+  return buf !== null && buf.subarray(0, 8000).includes(0);
+}
@@ -1,30 +1,74 @@
 /**
  * Express routes — port of Python server.py.
  * SSE streaming, session listing, tree navigation.
+ * Agent-agnostic: everything goes through the AgentBackend port.
+ *
+ * Session and converse routes take an optional `project` (slug from
+ * GET /api/projects); without one they act on the server's cwd.
  */
 
-import { existsSync, readdirSync } from 'node:fs';
-import { join, basename } from 'node:path';
-import express, { type Request, type Response } from 'express';
+import { randomUUID } from 'node:crypto';
+import { existsSync, rmSync } from 'node:fs';
+import { basename, dirname, join } from 'node:path';
+import express, { type NextFunction, type Request, type Response } from 'express';
 import cors from 'cors';
 import {
+  appendCustomTitle,
   Conversation,
   forkSession,
+  isSessionId,
+  pathMessages,
   pathToSlug,
   preview,
   sessionPreview,
+  sessionSubagents,
 } from '../shared/models.js';
 import { isUserEntry, isAssistantEntry } from '../shared/types.js';
-import type { ContentBlock } from '../shared/types.js';
+import type {
+  PermissionDecision,
+  PermissionRequestInfo,
+  ProjectInfo,
+  RunInfo,
+  RunLimits,
+} from '../shared/types.js';
+import type { AgentBackend, AskPermission } from './agent.js';
+import { BudgetGuard, mergeLimits, parseLimits } from './budget.js';
 import { Claude, type ClaudeConfig } from './claude-client.js';
-import type { PermissionMode } from '@anthropic-ai/claude-agent-sdk';
+import { EXPORT_FORMATS, exportSession, type ExportFormat } from './export.js';
+import { listTurnFiles, turnFileChanges } from './file-changes.js';
+import { applyRewind, planRewind } from './rewind.js';
+import { createClientSecret, openaiApiKey, synthesizeSpeech } from './openai.js';
+import { RunRegistry, type Run } from './runs.js';
+import { SearchIndex, type SearchSource } from './search.js';
+import { Trash } from './trash.js';
+import { SessionWatcher } from './watcher.js';
+import { projectUsage, sessionUsage, type UsageSource } from './usage.js';
+
+/** Keep-alive interval for the long-lived /api/events stream. */
+const EVENTS_HEARTBEAT_MS = 25_000;
 
 // --- App factory ---
 
+interface ConverseBody {
+  instruction: string;
+  session_id?: string;
+  leaf_uuid?: string;
+  rewind_code?: boolean; // with leaf_uuid: also put the files back as they were at the leaf
+  project?: string;
+  model: string;
+  system_prompt: string;
+  permission_mode?: string;
+  limits?: RunLimits;
+}
+
 export interface ServerConfig {
   claude: ClaudeConfig;
+  agent?: AgentBackend; // default: Claude Code via the Agent SDK
   cwd: string;
   publicDir?: string; // serve built frontend (production mode)
+  indexDir?: string; // default: ~/.duck_talk/index
+  trashDir?: string; // default: ~/.duck_talk/trash
+  limits?: RunLimits; // server-wide ceilings; requests can only tighten them
 }
 
 export function createApp(cfg: ServerConfig): express.Express {
@@ -32,88 +76,266 @@ export function createApp(cfg: ServerConfig): express.Express {
   app.use(cors());
   app.use(express.json());
 
-  const claude = new Claude(cfg.claude);
+  const agent = cfg.agent ?? new Claude(cfg.claude);
   const PROJECT_CWD = cfg.cwd;
-  const PROJECT_SLUG = pathToSlug(PROJECT_CWD);
 
-  function projectDirPath(): string {
-    const expanded = cfg.claude.configDir.replace(/^~/, process.env['HOME'] || '');
-    return join(expanded, 'projects', PROJECT_SLUG);
+  const runs = new RunRegistry();
+  const searchIndex = new SearchIndex(cfg.indexDir ?? '~/.duck_talk/index');
+  const trash = new Trash(cfg.trashDir ?? '~/.duck_talk/trash');
+  const watcher = new SessionWatcher(agent);
+
+  // slug → real cwd, refreshed from the agent on a miss so new repos show up without a restart
+  const projectCwds = new Map<string, string>([[pathToSlug(PROJECT_CWD), PROJECT_CWD]]);
+
+  function listProjects(): ProjectInfo[] {
+    const projects = agent.listProjects?.() ?? [];
+    if (!projects.some((p) => p.cwd === PROJECT_CWD)) {
+      projects.unshift({
+        slug: pathToSlug(PROJECT_CWD),
+        cwd: PROJECT_CWD,
+        name: basename(PROJECT_CWD),
+        session_count: 0,
+        updated_at: '',
+      });
+    }
+    for (const p of projects) projectCwds.set(p.slug, p.cwd);
+    return projects;
+  }
+
+  function resolveCwd(project: unknown): string {
+    if (project === undefined || project === '') return PROJECT_CWD;
+    if (typeof project !== 'string') {
+      throw { status: 400, message: 'project must be a slug string' };
+    }
+    if (!projectCwds.has(project)) listProjects();
+    const cwd = projectCwds.get(project);
+    if (!cwd) {
+      throw { status: 404, message: `Project not found: ${project}` };
+    }
+    return cwd;
   }
 
-  function findSessionFile(sessionId: string): string | null {
-    const candidate = join(projectDirPath(), `${sessionId}.jsonl`);
-    return existsSync(candidate) ? candidate : null;
+  function findSessionFile(cwd: string, sessionId: string): string | null {
+    return agent.sessionFile?.(cwd, sessionId) ?? null;
   }
 
-  function loadConversation(sessionId: string): Conversation {
-    const path = findSessionFile(sessionId);
+  function requireSessionFile(cwd: string, sessionId: string): string {
+    if (!agent.sessionFile) {
+      throw { status: 501, message: `Agent '${agent.name}' has no session files` };
+    }
+    const path = findSessionFile(cwd, sessionId);
     if (!path) {
       throw { status: 404, message: `Session not found: ${sessionId}` };
     }
-    return Conversation.fromJsonl(path);
+    return path;
+  }
+
+  function loadConversation(cwd: string, sessionId: string): Conversation {
+    return Conversation.load(requireSessionFile(cwd, sessionId));
   }
 
   // --- GET /api/config ---
 
   app.get('/api/config', (_req: Request, res: Response) => {
     res.json({
+      agent: agent.name,
       config_dir: cfg.claude.configDir,
       project_cwd: PROJECT_CWD,
+      project: pathToSlug(PROJECT_CWD),
+      limits: cfg.limits ?? {},
       gemini_api_key: process.env['GEMINI_API_KEY'] || process.env['VITE_GEMINI_API_KEY'] || null,
     });
   });
 
-  // --- GET /api/sessions ---
+  // --- POST /api/openai/client-secret ---
+  // A short-lived secret for one OpenAI Realtime socket; the API key stays here.
+
+  app.post('/api/openai/client-secret', async (req: Request, res: Response) => {
+    try {
+      requireSameOrigin(req);
+      res.json(await createClientSecret(requireOpenAIKey()));
+    } catch (e) {
+      handleError(res, e);
+    }
+  });
+
+  // --- POST /api/openai/speech {text} ---
+  // Raw 24kHz 16-bit mono PCM, for reading an instruction back before approval.
+
+  app.post('/api/openai/speech', async (req: Request, res: Response) => {
+    try {
+      requireSameOrigin(req);
+      const text = (req.body as { text?: unknown } | undefined)?.text;
+      if (typeof text !== 'string' || !text.trim()) {
+        throw { status: 400, message: 'text is required' };
+      }
+      const pcm = await synthesizeSpeech(requireOpenAIKey(), text);
+      res.type('application/octet-stream').send(pcm);
+    } catch (e) {
+      handleError(res, e);
+    }
+  });
 
-  app.get('/api/sessions', (_req: Request, res: Response) => {
-    const pdir = projectDirPath();
-    if (!existsSync(pdir)) {
-      res.json([]);
+  // --- GET /api/projects ---
+
+  app.get('/api/projects', (_req: Request, res: Response) => {
+    try {
+      res.json(listProjects());
+    } catch (e) {
+      handleError(res, e);
+    }
+  });
+
+  // --- GET /api/sessions?limit=&before=&before_id= ---
+  // Newest first, ties broken by id. For the next page pass the last session's
+  // updated_at as `before` and its id as `before_id`.
+
+  app.get('/api/sessions', (req: Request, res: Response) => {
+    try {
+      let sessions = agent.listSessions(resolveCwd(req.query['project']));
+      sessions.sort((a, b) =>
+        a.updated_at !== b.updated_at ? (b.updated_at > a.updated_at ? 1 : -1) : b.id > a.id ? 1 : b.id < a.id ? -1 : 0,
+      );
+      const before = String(req.query['before'] ?? '').trim();
+      const beforeId = String(req.query['before_id'] ?? '');
+      if (before) {
+        if (Number.isNaN(Date.parse(before))) {
+          throw { status: 400, message: `before must be an ISO timestamp: ${before}` };
+        }
+        sessions = sessions.filter((s) => s.updated_at < before || (s.updated_at === before && s.id < beforeId));
+      }
+      const limit = parseInt(String(req.query['limit'] ?? ''), 10);
+      if (limit > 0) sessions = sessions.slice(0, limit);
+      res.json(sessions);
+    } catch (e) {
+      handleError(res, e);
+    }
+  });
+
+  // --- GET /api/events (SSE: session_created / session_updated / session_deleted) ---
+
+  app.get('/api/events', (req: Request, res: Response) => {
+    let cwd: string;
+    try {
+      if (!agent.sessionDir) {
+        throw { status: 501, message: `Agent '${agent.name}' has no session dir to watch` };
+      }
+      cwd = resolveCwd(req.query['project']);
+    } catch (e) {
+      handleError(res, e);
       return;
     }
 
-    const files = readdirSync(pdir)
-      .filter((f) => f.endsWith('.jsonl'))
-      .map((f) => join(pdir, f));
+    res.setHeader('Content-Type', 'text/event-stream');
+    res.setHeader('Cache-Control', 'no-cache');
+    res.setHeader('Connection', 'keep-alive');
+    res.setHeader('X-Accel-Buffering', 'no');
+    res.flushHeaders();
 
-    const previews: { file: string; name: string; summary: string; timestamp: string }[] = [];
-    const seen = new Set<string>();
+    const unsubscribe = watcher.subscribe(cwd, (event) => {
+      res.write(`data: ${JSON.stringify(event)}\n\n`);
+    });
+    // Comment lines keep idle proxies from closing the stream
+    const heartbeat = setInterval(() => res.write(': ping\n\n'), EVENTS_HEARTBEAT_MS);
+    res.on('close', () => {
+      clearInterval(heartbeat);
+      unsubscribe();
+    });
+  });
 
-    for (const f of files) {
-      const sid = basename(f, '.jsonl');
-      if (seen.has(sid)) continue;
-      seen.add(sid);
-      const { name, summary, timestamp } = sessionPreview(f);
-      if (name) {
-        previews.push({ file: f, name, summary, timestamp });
+  // --- GET /api/sessions/search?q= ---
+
+  app.get('/api/sessions/search', (req: Request, res: Response) => {
+    try {
+      const q = String(req.query['q'] ?? '').trim();
+      if (!q) {
+        res.json([]);
+        return;
       }
+      if (!agent.sessionFile) {
+        throw { status: 501, message: `Agent '${agent.name}' has no searchable transcripts` };
+      }
+      const cwd = resolveCwd(req.query['project']);
+      const sources: SearchSource[] = [];
+      for (const session of agent.listSessions(cwd)) {
+        const path = findSessionFile(cwd, session.id);
+        if (path) sources.push({ session, path });
+      }
+      const limit = parseInt(String(req.query['limit'] ?? '20'), 10) || 20;
+      res.json(searchIndex.search(cwd, sources, q, limit));
+    } catch (e) {
+      handleError(res, e);
     }
+  });
 
-    previews.sort((a, b) => (b.timestamp > a.timestamp ? 1 : b.timestamp < a.timestamp ? -1 : 0));
+  // --- PATCH /api/sessions/:id (rename) ---
 
-    res.json(
-      previews.map((p) => ({
-        id: basename(p.file, '.jsonl'),
-        name: p.name,
-        summary: p.summary,
-        updated_at: p.timestamp,
-      })),
-    );
+  app.patch('/api/sessions/:id', sameOrigin, (req: Request, res: Response) => {
+    try {
+      const id = req.params['id'] as string;
+      const title = typeof req.body?.title === 'string' ? req.body.title.trim() : '';
+      if (!title) {
+        throw { status: 400, message: 'Expected { title }' };
+      }
+      const path = requireSessionFile(resolveCwd(req.query['project']), id);
+      appendCustomTitle(path, id, title.slice(0, 200));
+      console.info(`renamed session ${id}: ${title}`);
+      res.json({ id, name: title });
+    } catch (e) {
+      handleError(res, e);
+    }
+  });
+
+  // --- DELETE /api/sessions/:id (move to trash) ---
+
+  app.delete('/api/sessions/:id', sameOrigin, (req: Request, res: Response) => {
+    try {
+      const id = req.params['id'] as string;
+      const cwd = resolveCwd(req.query['project']);
+      const path = requireSessionFile(cwd, id);
+      if (runs.list().some((r) => !r.done && r.sessionId === id)) {
+        throw { status: 409, message: 'Session has a run in progress' };
+      }
+      res.json(trash.put(cwd, id, path, sessionPreview(path).name));
+    } catch (e) {
+      handleError(res, e);
+    }
+  });
+
+  // --- GET /api/trash ---
+
+  app.get('/api/trash', (req: Request, res: Response) => {
+    try {
+      res.json(trash.list(resolveCwd(req.query['project'])));
+    } catch (e) {
+      handleError(res, e);
+    }
+  });
+
+  // --- POST /api/trash/:id/restore ---
+
+  app.post('/api/trash/:id/restore', sameOrigin, (req: Request, res: Response) => {
+    try {
+      const id = req.params['id'] as string;
+      trash.restore(resolveCwd(req.query['project']), id);
+      res.json({ ok: true, id });
+    } catch (e) {
+      handleError(res, e);
+    }
   });
 
   // --- GET /api/sessions/:id/leaves ---
 
   app.get('/api/sessions/:id/leaves', (req: Request, res: Response) => {
     try {
-      const conv = loadConversation(req.params['id'] as string);
+      const conv = loadConversation(resolveCwd(req.query['project']), req.params['id'] as string);
       const active = conv.activeLeaf;
       const activeUuid = active?.uuid ?? null;
 
       const result = conv.leaves.map((leaf) => ({
         uuid: leaf.uuid,
         type: leaf.type,
-        depth: conv.walkPath(leaf.uuid).length,
+        depth: conv.depthOf(leaf.uuid),
         preview: preview(leaf),
         is_active: leaf.uuid === activeUuid,
       }));
@@ -129,7 +351,7 @@ export function createApp(cfg: ServerConfig): express.Express {
 
   app.get('/api/sessions/:id/path', (req: Request, res: Response) => {
     try {
-      const conv = loadConversation(req.params['id'] as string);
+      const conv = loadConversation(resolveCwd(req.query['project']), req.params['id'] as string);
       const leafParam = req.query['leaf'] as string | undefined;
       const filterParam = req.query['filter'] as string | undefined;
 
@@ -168,49 +390,148 @@ export function createApp(cfg: ServerConfig): express.Express {
     }
   });
 
-  // --- GET /api/sessions/:id/messages ---
+  // --- GET /api/sessions/:id/messages?leaf=&full=1 ---
+  // `full=1` follows compact boundaries back into the history they summarized
 
   app.get('/api/sessions/:id/messages', (req: Request, res: Response) => {
     try {
-      const conv = loadConversation(req.params['id'] as string);
-      const active = conv.activeLeaf;
-      if (!active) {
-        res.status(404).json({ detail: 'No active leaf found' });
+      const id = req.params['id'] as string;
+      const leaf = req.query['leaf'] as string | undefined;
+      const acrossCompactions = req.query['full'] === '1';
+      const messages = agent.loadMessages(resolveCwd(req.query['project']), id, leaf || undefined, { acrossCompactions });
+      if (!messages) {
+        res.status(404).json({ detail: leaf ? `Leaf not found: ${leaf}` : `Session not found: ${id}` });
         return;
       }
+      res.json(messages);
+    } catch (e) {
+      handleError(res, e);
+    }
+  });
 
-      const path = conv.walkPath(active.uuid);
-      path.reverse(); // leaf→root to root→leaf
-
-      const messages: { uuid: string; role: string; content: string | Record<string, unknown>[] }[] = [];
-
-      for (const entry of path) {
-        if (isUserEntry(entry)) {
-          messages.push({
-            uuid: entry.uuid,
-            role: 'user',
-            content: entry.message.content,
-          });
-        } else if (isAssistantEntry(entry)) {
-          // model_dump(exclude_none=True) equivalent: spread and filter nulls
-          const blocks = entry.message.content.map((block: ContentBlock) => {
-            const obj: Record<string, unknown> = {};
-            for (const [k, v] of Object.entries(block)) {
-              if (v !== null && v !== undefined) {
-                obj[k] = v;
-              }
-            }
-            return obj;
-          });
-          messages.push({
-            uuid: entry.uuid,
-            role: 'assistant',
-            content: blocks,
-          });
-        }
+  // --- GET /api/sessions/:id/subagents/:toolUseId (a subagent's own messages) ---
+
+  app.get('/api/sessions/:id/subagents/:toolUseId', (req: Request, res: Response) => {
+    try {
+      const id = req.params['id'] as string;
+      const toolUseId = req.params['toolUseId'] as string;
+      const path = requireSessionFile(resolveCwd(req.query['project']), id);
+      const sub = sessionSubagents(Conversation.load(path), path).get(toolUseId);
+      if (!sub) {
+        throw { status: 404, message: `No subagent call ${toolUseId} in session ${id}` };
+      }
+      const leaf = sub.conv?.activeLeaf;
+      if (!sub.conv || !leaf) {
+        throw { status: 404, message: `Transcript not found for subagent ${sub.agentId ?? toolUseId}` };
+      }
+      res.json(pathMessages(sub.conv.walkPath(leaf.uuid)));
+    } catch (e) {
+      handleError(res, e);
+    }
+  });
+
+  // --- GET /api/sessions/:id/files?message=&leaf= ---
+  // Without `message`: the branch's turns that changed files. With it: that turn's diffs.
+
+  app.get('/api/sessions/:id/files', (req: Request, res: Response) => {
+    try {
+      const id = req.params['id'] as string;
+      const cwd = resolveCwd(req.query['project']);
+      const path = requireSessionFile(cwd, id);
+      const conv = Conversation.load(path);
+      const leafUuid = (req.query['leaf'] as string | undefined) || conv.activeLeaf?.uuid;
+      const branch = leafUuid ? conv.walkPath(leafUuid, { acrossCompactions: true }) : [];
+      if (leafUuid && branch.length === 0) {
+        throw { status: 404, message: `Leaf not found: ${leafUuid}` };
       }
+      const message = req.query['message'] as string | undefined;
+      if (!message) {
+        res.json(listTurnFiles(conv, branch, cwd));
+        return;
+      }
+      const turn = turnFileChanges(conv, branch, message, path, cwd);
+      if (!turn) {
+        throw { status: 404, message: `No turn containing ${message} on this branch` };
+      }
+      res.json(turn);
+    } catch (e) {
+      handleError(res, e);
+    }
+  });
 
-      res.json(messages);
+  // --- GET /api/sessions/:id/rewind?leaf= (dry run of converse's `rewind_code`) ---
+
+  app.get('/api/sessions/:id/rewind', sameOrigin, (req: Request, res: Response) => {
+    try {
+      const id = req.params['id'] as string;
+      const leaf = req.query['leaf'];
+      if (typeof leaf !== 'string' || !leaf) {
+        throw { status: 400, message: 'leaf is required' };
+      }
+      const cwd = resolveCwd(req.query['project']);
+      const path = requireSessionFile(cwd, id);
+      const plan = planRewind(Conversation.load(path), path, leaf, cwd);
+      if (!plan) {
+        throw { status: 404, message: `Leaf not found: ${leaf}` };
+      }
+      res.json(plan);
+    } catch (e) {
+      handleError(res, e);
+    }
+  });
+
+  // --- GET /api/sessions/:id/export?format=md|json|html ---
+
+  app.get('/api/sessions/:id/export', (req: Request, res: Response) => {
+    try {
+      const id = req.params['id'] as string;
+      const format = String(req.query['format'] ?? 'md') as ExportFormat;
+      if (!EXPORT_FORMATS.includes(format)) {
+        throw { status: 400, message: `format must be one of: ${EXPORT_FORMATS.join(', ')}` };
+      }
+      const conv = loadConversation(resolveCwd(req.query['project']), id);
+      const leafUuid = (req.query['leaf'] as string | undefined) || conv.activeLeaf?.uuid;
+      const result = leafUuid ? exportSession(conv, id, leafUuid, format) : null;
+      if (!result) {
+        throw { status: 404, message: `Leaf not found: ${leafUuid ?? '(empty session)'}` };
+      }
+      res.setHeader('Content-Type', result.contentType);
+      res.setHeader('Content-Disposition', `attachment; filename="${result.filename}"`);
+      res.send(result.body);
+    } catch (e) {
+      handleError(res, e);
+    }
+  });
+
+  // --- GET /api/sessions/:id/usage ---
+
+  app.get('/api/sessions/:id/usage', (req: Request, res: Response) => {
+    try {
+      const id = req.params['id'] as string;
+      res.json(sessionUsage(id, requireSessionFile(resolveCwd(req.query['project']), id)));
+    } catch (e) {
+      handleError(res, e);
+    }
+  });
+
+  // --- GET /api/usage?since= (whole project) ---
+
+  app.get('/api/usage', (req: Request, res: Response) => {
+    try {
+      if (!agent.sessionFile) {
+        throw { status: 501, message: `Agent '${agent.name}' has no session files` };
+      }
+      const since = String(req.query['since'] ?? '').trim() || null;
+      if (since && Number.isNaN(Date.parse(since))) {
+        throw { status: 400, message: `since must be an ISO date: ${since}` };
+      }
+      const cwd = resolveCwd(req.query['project']);
+      const sources: UsageSource[] = [];
+      for (const session of agent.listSessions(cwd)) {
+        const path = findSessionFile(cwd, session.id);
+        if (path) sources.push({ id: session.id, path });
+      }
+      res.json(projectUsage(sources, since));
     } catch (e) {
       handleError(res, e);
     }
@@ -218,64 +539,170 @@ export function createApp(cfg: ServerConfig): express.Express {
 
   // --- POST /api/converse (SSE) ---
 
-  app.post('/api/converse', async (req: Request, res: Response) => {
-    const body = req.body as {
-      instruction: string;
-      session_id?: string;
-      leaf_uuid?: string;
-      model: string;
-      system_prompt: string;
-      permission_mode?: string;
-    };
+  app.post('/api/converse', (req: Request, res: Response) => {
+    const body = req.body as ConverseBody;
 
     console.info(
       `converse: ${body.instruction?.slice(0, 80)} | model=${body.model} prompt=${body.system_prompt?.length ?? 0} chars`,
     );
     console.info(`[SYSTEM PROMPT] ${body.system_prompt ?? '(none)'}`);
 
+    let cwd: string;
+    try {
+      cwd = resolveCwd(body.project ?? req.query['project']);
+      if (body.session_id && !isSessionId(body.session_id)) {
+        throw { status: 400, message: `Invalid session id: ${body.session_id}` };
+      }
+      // Rewinding writes the project tree
+      if (body.rewind_code) requireSameOrigin(req);
+    } catch (e) {
+      handleError(res, e);
+      return;
+    }
+
     // Fork if rewinding to a specific leaf
     let sessionId = body.session_id ?? undefined;
     let shouldFork = false;
 
     if (body.leaf_uuid && body.session_id) {
-      const sessionPath = findSessionFile(body.session_id);
+      const sessionPath = findSessionFile(cwd, body.session_id);
       if (sessionPath) {
-        sessionId = forkSession(sessionPath, body.leaf_uuid);
+        // Fork before touching the tree: a failed fork must not leave files rewound
+        try {
+          sessionId = forkSession(sessionPath, body.leaf_uuid);
+        } catch (e) {
+          handleError(res, e);
+          return;
+        }
+        if (body.rewind_code) {
+          try {
+            const paths = applyRewind(Conversation.load(sessionPath), sessionPath, body.leaf_uuid, cwd);
+            console.info(`rewound ${paths.length} files to leaf ${body.leaf_uuid}`);
+          } catch (e) {
+            rmSync(join(dirname(sessionPath), `${sessionId}.jsonl`), { force: true });
+            handleError(res, e);
+            return;
+          }
+        }
         shouldFork = true;
         console.info(`forked session ${body.session_id} -> ${sessionId} at leaf ${body.leaf_uuid}`);
       }
     }
 
-    // SSE headers
-    res.setHeader('Content-Type', 'text/event-stream');
-    res.setHeader('Cache-Control', 'no-cache');
-    res.setHeader('Connection', 'keep-alive');
-    res.setHeader('X-Accel-Buffering', 'no');
-    res.flushHeaders();
+    // The run is detached from this response — it keeps going if the client drops
+    const run = runs.create(body.instruction, cwd, sessionId ?? null);
+    run.emit({ run_id: run.id });
+    void driveRun(run, body, sessionId, shouldFork);
+    streamRun(res, run, 0);
+  });
+
+  // --- GET /api/converse/:runId (SSE re-attach, replays after Last-Event-ID) ---
 
-    function sse(data: Record<string, unknown>): void {
-      res.write(`data: ${JSON.stringify(data)}\n\n`);
+  app.get('/api/converse/:runId', sameOrigin, (req: Request, res: Response) => {
+    const run = runs.get(req.params['runId'] as string);
+    if (!run) {
+      res.status(404).json({ detail: `Run not found: ${req.params['runId']}` });
+      return;
     }
+    const lastEventId = parseInt(req.get('Last-Event-ID') ?? String(req.query['after'] ?? '0'), 10) || 0;
+    console.info(`re-attach run ${run.id} after event ${lastEventId}`);
+    streamRun(res, run, lastEventId);
+  });
+
+  // --- GET /api/runs ---
+
+  app.get('/api/runs', sameOrigin, (_req: Request, res: Response) => {
+    const result: RunInfo[] = runs
+      .list()
+      .filter((r) => !r.done)
+      .map((r) => ({
+        id: r.id,
+        project: pathToSlug(r.cwd),
+        session_id: r.sessionId,
+        instruction: r.instruction,
+        started_at: r.startedAt,
+        n_events: r.eventCount,
+        n_subscribers: r.subscriberCount,
+        awaiting_permission: r.permissions.size > 0,
+      }));
+    res.json(result);
+  });
+
+  async function driveRun(
+    run: Run,
+    body: ConverseBody,
+    sessionId: string | undefined,
+    shouldFork: boolean,
+  ): Promise<void> {
+    // Pause the SDK until POST /api/converse/:runId/permission answers
+    const askPermission: AskPermission = (prompt) =>
+      new Promise((resolve) => {
+        const id = randomUUID();
+        const settle = (d: PermissionDecision) => {
+          if (!run.permissions.delete(id)) return;
+          run.emit({ permission_resolved: { id, decision: d } });
+          resolve(d);
+        };
+        run.permissions.set(id, settle);
+        prompt.signal.addEventListener('abort', () => settle('deny'), { once: true });
+        const info: PermissionRequestInfo = {
+          id,
+          tool_name: prompt.toolName,
+          input: prompt.input,
+          tool_use_id: prompt.toolUseId,
+          ...(prompt.decisionReason && { decision_reason: prompt.decisionReason }),
+          ...(prompt.blockedPath && { blocked_path: prompt.blockedPath }),
+        };
+        console.info(`permission request ${run.id}/${id}: ${prompt.toolName}`);
+        run.emit({ permission_request: info });
+      });
+
+    const limits = mergeLimits(cfg.limits ?? {}, parseLimits(body.limits));
+    const guard = new BudgetGuard(limits, (breach) => run.cancel(breach.message));
+    const cancelledEvent = () => ({
+      done: true,
+      cancelled: true,
+      session_id: run.sessionId,
+      ...(guard.breach && { limit: guard.breach }),
+    });
 
     try {
       let nChunks = 0;
-      for await (const chunk of claude.converse(body.instruction, {
+      for await (const chunk of agent.converse(body.instruction, {
         model: body.model,
         systemPrompt: body.system_prompt,
-        cwd: PROJECT_CWD,
+        cwd: run.cwd,
         sessionId,
-        permissionMode: (body.permission_mode ?? 'plan') as PermissionMode,
+        permissionMode: body.permission_mode ?? 'plan',
         fork: shouldFork,
+        askPermission,
+        abortController: run.abortController,
+        maxTurns: limits.max_turns,
+        maxBudgetUsd: limits.max_cost_usd,
       })) {
+        guard.observe(chunk);
         switch (chunk.kind) {
           case 'text':
             if (chunk.text) {
               nChunks++;
-              sse({ text: chunk.text });
+              run.emit({ text: chunk.text });
             }
             break;
           case 'block':
-            sse({ block: chunk.block });
+            run.emit({ block: chunk.block, ...(chunk.parentToolUseId && { parent_tool_use_id: chunk.parentToolUseId }) });
+            break;
+          case 'tool_start':
+            run.emit({ tool_start: { id: chunk.id, name: chunk.name } });
+            break;
+          case 'tool_input':
+            run.emit({ tool_input: { id: chunk.id, partial_json: chunk.partialJson } });
+            break;
+          case 'tool_end':
+            run.emit({ tool_end: { id: chunk.id } });
+            break;
+          case 'session':
+            run.sessionId = chunk.sessionId;
+            run.emit({ session_id: chunk.sessionId });
             break;
           case 'result': {
             console.info(`done: ${nChunks} chunks, cost=$${chunk.costUsd}, ${chunk.durationMs}ms`);
@@ -285,20 +712,61 @@ export function createApp(cfg: ServerConfig): express.Express {
               cost_usd: chunk.costUsd,
               duration_ms: chunk.durationMs,
             };
-            if (chunk.error) {
+            if (guard.breach) {
+              event['limit'] = guard.breach;
+            } else if (chunk.error) {
               event['error'] = chunk.error;
             }
-            sse(event);
+            run.emit(event);
             break;
           }
         }
       }
+      if (run.cancelled) {
+        run.emit(cancelledEvent());
+      }
     } catch (e) {
-      console.error('converse error:', e);
-      sse({ done: true, error: e instanceof Error ? e.message : String(e) });
+      if (run.cancelled) {
+        console.info(`run ${run.id} cancelled`);
+        run.emit(cancelledEvent());
+      } else {
+        console.error('converse error:', e);
+        run.emit({ done: true, error: e instanceof Error ? e.message : String(e) });
+      }
+    } finally {
+      guard.stop();
+      runs.finish(run);
+    }
+  }
+
+  // --- POST /api/converse/:runId/cancel ---
+
+  app.post('/api/converse/:runId/cancel', sameOrigin, (req: Request, res: Response) => {
+    const run = runs.get(req.params['runId'] as string);
+    if (!run) {
+      res.status(404).json({ detail: `Run not found: ${req.params['runId']}` });
+      return;
     }
+    run.cancel('client request');
+    res.json({ ok: true, already_done: run.done });
+  });
+
+  // --- POST /api/converse/:runId/permission ---
 
-    res.end();
+  app.post('/api/converse/:runId/permission', sameOrigin, (req: Request, res: Response) => {
+    const body = req.body as { request_id?: string; decision?: string };
+    const decision = body.decision as PermissionDecision | undefined;
+    if (!body.request_id || !decision || !['allow', 'deny', 'always'].includes(decision)) {
+      res.status(400).json({ detail: 'Expected { request_id, decision: allow|deny|always }' });
+      return;
+    }
+    const settle = runs.get(req.params['runId'] as string)?.permissions.get(body.request_id);
+    if (!settle) {
+      res.status(404).json({ detail: `No pending permission request: ${body.request_id}` });
+      return;
+    }
+    settle(decision);
+    res.json({ ok: true });
   });
 
   // --- Static files (production — serves built frontend) ---
@@ -310,8 +778,67 @@ export function createApp(cfg: ServerConfig): express.Express {
   return app;
 }
 
+// --- SSE helper ---
+
+/** Pipe a run's events to an SSE response; ends the response when the run finishes. */
+function streamRun(res: Response, run: Run, afterId: number): void {
+  res.setHeader('Content-Type', 'text/event-stream');
+  res.setHeader('Cache-Control', 'no-cache');
+  res.setHeader('Connection', 'keep-alive');
+  res.setHeader('X-Accel-Buffering', 'no');
+  res.flushHeaders();
+
+  const unsubscribe = run.subscribe(afterId, (event) => {
+    if (event) {
+      res.write(`id: ${event.id}\ndata: ${JSON.stringify(event.data)}\n\n`);
+    } else {
+      res.end();
+    }
+  });
+  res.on('close', unsubscribe);
+}
+
 // --- Error helper ---
 
+/**
+ * CORS is open, so any page in the browser can reach the API. Routes that
+ * act for the user — spend the OpenAI key, answer permission prompts, read
+ * a run's stream, rewind files, rename or trash sessions — only take
+ * requests from the app's own page.
+ */
+function requireSameOrigin(req: Request): void {
+  const origin = req.get('Origin');
+  if (!origin) return;
+  let host: string | null = null;
+  try {
+    host = new URL(origin).host;
+  } catch {
+    // Origin: null, or garbage
+  }
+  if (host !== req.get('Host')) {
+    throw { status: 403, message: `Cross-origin request refused: ${origin}` };
+  }
+}
+
+/** requireSameOrigin as route middleware. */
+function sameOrigin(req: Request, res: Response, next: NextFunction): void {
+  try {
+    requireSameOrigin(req);
+  } catch (e) {
+    handleError(res, e);
+    return;
+  }
+  next();
+}
+
+function requireOpenAIKey(): string {
+  const key = openaiApiKey();
+  if (!key) {
+    throw { status: 503, message: 'OPENAI_API_KEY is not set on the server' };
+  }
+  return key;
+}
+
 function handleError(res: Response, e: unknown): void {
   if (typeof e === 'object' && e !== null && 'status' in e) {
     const err = e as { status: number; message: string };
@@ -0,0 +1,125 @@
+/**
+ * Detachable converse runs.
+ * A run owns one agent query and outlives the HTTP response that started it.
+ * Every SSE payload is buffered with a sequential id so a client can
+ * re-attach with `Last-Event-ID` and replay whatever it missed.
+ *
+ * A run with no attached client is cancelled after a grace window, so a
+ * closed tab stops spending tokens while a refresh or dropped phone
+ * connection still has time to come back.
+ */
+
+import { randomUUID } from 'node:crypto';
+import type { PermissionDecision } from '../shared/types.js';
+
+/** How long a finished run stays around for late re-attach. */
+const RUN_RETENTION_MS = 5 * 60 * 1000;
+/** How long a run may have no attached client before it is cancelled. */
+const ORPHAN_GRACE_MS = 60 * 1000;
+
+export interface RunEvent {
+  id: number;
+  data: Record<string, unknown>;
+}
+
+/** Receives each event; `null` means the run finished and no more will come. */
+export type RunListener = (event: RunEvent | null) => void;
+
+export class Run {
+  readonly id = randomUUID();
+  readonly startedAt = new Date().toISOString();
+  readonly instruction: string;
+  readonly cwd: string;
+  sessionId: string | null;
+  finishedAt: string | null = null;
+  /** Passed to the SDK — aborting it kills the agent query. */
+  readonly abortController = new AbortController();
+  /** Open permission prompts: requestId → resolver. */
+  readonly permissions = new Map<string, (d: PermissionDecision) => void>();
+  private readonly events: RunEvent[] = [];
+  private readonly listeners = new Set<RunListener>();
+  private orphanTimer: ReturnType<typeof setTimeout> | undefined;
+
+  constructor(instruction: string, cwd: string, sessionId: string | null) {
+    this.instruction = instruction;
+    this.cwd = cwd;
+    this.sessionId = sessionId;
+  }
+
+  get done(): boolean {
+    return this.finishedAt !== null;
+  }
+
+  get cancelled(): boolean {
+    return this.abortController.signal.aborted;
+  }
+
+  get subscriberCount(): number {
+    return this.listeners.size;
+  }
+
+  get eventCount(): number {
+    return this.events.length;
+  }
+
+  emit(data: Record<string, unknown>): void {
+    if (this.done) return;
+    const event: RunEvent = { id: this.events.length + 1, data };
+    this.events.push(event);
+    for (const listener of this.listeners) listener(event);
+  }
+
+  cancel(reason: string): void {
+    if (this.done || this.cancelled) return;
+    console.info(`cancel run ${this.id}: ${reason}`);
+    this.abortController.abort();
+  }
+
+  finish(): void {
+    if (this.done) return;
+    clearTimeout(this.orphanTimer);
+    this.finishedAt = new Date().toISOString();
+    for (const listener of this.listeners) listener(null);
+    this.listeners.clear();
+  }
+
+  /** Replay events after `afterId`, then follow live. Returns an unsubscribe handle. */
+  subscribe(afterId: number, listener: RunListener): () => void {
+    for (const event of this.events.slice(Math.max(0, afterId))) listener(event);
+    if (this.done) {
+      listener(null);
+      return () => {};
+    }
+    clearTimeout(this.orphanTimer);
+    this.listeners.add(listener);
+    return () => {
+      if (!this.listeners.delete(listener) || this.listeners.size > 0 || this.done) return;
+      this.orphanTimer = setTimeout(() => this.cancel('no client attached'), ORPHAN_GRACE_MS);
+      this.orphanTimer.unref();
+    };
+  }
+}
+
+export class RunRegistry {
+  private readonly runs = new Map<string, Run>();
+
+  create(instruction: string, cwd: string, sessionId: string | null): Run {
+    const run = new Run(instruction, cwd, sessionId);
+    this.runs.set(run.id, run);
+    return run;
+  }
+
+  get(id: string): Run | undefined {
+    return this.runs.get(id);
+  }
+
+  list(): Run[] {
+    return [...this.runs.values()];
+  }
+
+  /** Mark finished and schedule eviction after the retention window. */
+  finish(run: Run): void {
+    run.finish();
+    setTimeout(() => this.runs.delete(run.id), RUN_RETENTION_MS).unref();
+  }
+}
@@ -0,0 +1,169 @@
+/**
+ * Full-text session search.
+ * Every user/assistant entry is reduced to its text plus tool names and
+ * kept in an on-disk index per project, re-extracted per file when the
+ * file's mtime or size changes. A query matches an entry when every term
+ * appears in it (case-insensitive).
+ */
+
+import { existsSync, mkdirSync, readFileSync, statSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { Conversation, pathToSlug } from '../shared/models.js';
+import type { JsonDict, SearchResult, SessionInfo } from '../shared/types.js';
+import { isAssistantEntry, isUserEntry } from '../shared/types.js';
+
+const INDEX_VERSION = 1;
+const SNIPPET_RADIUS = 60;
+const MAX_MATCHES_PER_SESSION = 5;
+
+interface IndexedEntry {
+  uuid: string;
+  role: 'user' | 'assistant';
+  text: string;
+  tools: string[];
+}
+
+interface IndexedFile {
+  mtimeMs: number;
+  size: number;
+  entries: IndexedEntry[];
+}
+
+interface IndexFile {
+  version: number;
+  files: Record<string, IndexedFile>; // session id → extracted entries
+}
+
+/** One session to search: its listing info and JSONL path. */
+export interface SearchSource {
+  session: SessionInfo;
+  path: string;
+}
+
+export class SearchIndex {
+  private readonly dir: string;
+  private readonly cache = new Map<string, IndexFile>(); // project slug → index
+
+  constructor(dir: string) {
+    this.dir = dir.replace(/^~/, process.env['HOME'] || '');
+  }
+
+  search(cwd: string, sources: SearchSource[], query: string, limit = 20): SearchResult[] {
+    const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+    if (terms.length === 0) return [];
+
+    const index = this.refresh(cwd, sources);
+    const results: SearchResult[] = [];
+
+    for (const { session } of sources) {
+      const file = index.files[session.id];
+      if (!file) continue;
+      const matches: SearchResult['matches'] = [];
+      let total = 0;
+      for (const entry of file.entries) {
+        const haystack = `${entry.text}\n${entry.tools.join(' ')}`.toLowerCase();
+        if (!terms.every((t) => haystack.includes(t))) continue;
+        total++;
+        if (matches.length < MAX_MATCHES_PER_SESSION) {
+          matches.push({ uuid: entry.uuid, role: entry.role, snippet: snippet(entry, terms[0]!) });
+        }
+      }
+      if (total > 0) {
+        results.push({ session_id: session.id, name: session.name, updated_at: session.updated_at, total, matches });
+      }
+      if (results.length >= limit) break;
+    }
+    return results;
+  }
+
+  /** Bring the project's index up to date with `sources`; persists only if something changed. */
+  private refresh(cwd: string, sources: SearchSource[]): IndexFile {
+    const slug = pathToSlug(cwd);
+    const index = this.cache.get(slug) ?? this.load(slug);
+    this.cache.set(slug, index);
+
+    let changed = false;
+    const live = new Set<string>();
+    for (const { session, path } of sources) {
+      live.add(session.id);
+      const stat = statSync(path, { throwIfNoEntry: false });
+      if (!stat) continue;
+      const known = index.files[session.id];
+      if (known && known.mtimeMs === stat.mtimeMs && known.size === stat.size) continue;
+      index.files[session.id] = { mtimeMs: stat.mtimeMs, size: stat.size, entries: extractEntries(path) };
+      changed = true;
+    }
+    for (const id of Object.keys(index.files)) {
+      if (!live.has(id)) {
+        delete index.files[id];
+        changed = true;
+      }
+    }
+
+    if (changed) this.save(slug, index);
+    return index;
+  }
+
+  private indexPath(slug: string): string {
+    return join(this.dir, `${slug}.search.json`);
+  }
+
+  private load(slug: string): IndexFile {
+    const path = this.indexPath(slug);
+    try {
+      if (existsSync(path)) {
+        const parsed = JSON.parse(readFileSync(path, 'utf-8')) as IndexFile;
+        if (parsed.version === INDEX_VERSION) return parsed;
+      }
+    } catch {
+      console.warn(`search: discarding unreadable index ${path}`);
+    }
+    return { version: INDEX_VERSION, files: {} };
+  }
+
+  private save(slug: string, index: IndexFile): void {
+    try {
+      mkdirSync(this.dir, { recursive: true });
+      writeFileSync(this.indexPath(slug), JSON.stringify(index));
+    } catch (e) {
+      console.warn('search: failed to write index:', e);
+    }
+  }
+}
+
+// --- Helpers ---
+
+function extractEntries(path: string): IndexedEntry[] {
+  const entries: IndexedEntry[] = [];
+  for (const r of Conversation.fromJsonl(path).records) {
+    if (!isUserEntry(r) && !isAssistantEntry(r)) continue;
+    if (r.isSidechain || r.isMeta) continue;
+
+    const content = r.message.content;
+    const texts: string[] = [];
+    const tools: string[] = [];
+    if (typeof content === 'string') {
+      texts.push(content);
+    } else {
+      for (const b of content as JsonDict[]) {
+        if (b['type'] === 'text' && typeof b['text'] === 'string') texts.push(b['text']);
+        else if (b['type'] === 'tool_use' && typeof b['name'] === 'string') tools.push(b['name']);
+      }
+    }
+
+    const text = texts.join('\n').trim();
+    if (!text && tools.length === 0) continue;
+    entries.push({ uuid: r.uuid, role: r.type, text, tools });
+  }
+  return entries;
+}
+
+function snippet(entry: IndexedEntry, term: string): string {
+  const at = entry.text.toLowerCase().indexOf(term);
+  if (at < 0) return entry.tools.length ? `[${entry.tools.join(', ')}]` : entry.text.slice(0, SNIPPET_RADIUS * 2);
+
+  const start = Math.max(0, at - SNIPPET_RADIUS);
+  const end = Math.min(entry.text.length, at + term.length + SNIPPET_RADIUS);
+  const body = entry.text.slice(start, end).replace(/\s+/g, ' ').trim();
+  return `${start > 0 ? '…' : ''}${body}${end < entry.text.length ? '…' : ''}`;
+}
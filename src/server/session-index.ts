@@ -0,0 +1,116 @@
+/**
+ * Session list index.
+ * Listing a project used to tail-read every transcript on every request.
+ * Instead each file's listing stats are kept in an on-disk index per project
+ * and recomputed only for files whose mtime or size changed, so a listing
+ * is a readdir plus a stat per file.
+ */
+
+import { existsSync, mkdirSync, readdirSync, readFileSync, statSync, writeFileSync } from 'node:fs';
+import { basename, join } from 'node:path';
+import { isSessionFile, sessionStats, type SessionStats } from '../shared/models.js';
+import type { SessionInfo } from '../shared/types.js';
+
+const INDEX_VERSION = 2; // 2: compacted history no longer counts as a branch
+
+interface IndexedSession extends SessionStats {
+  mtimeMs: number;
+  size: number;
+}
+
+interface IndexFile {
+  version: number;
+  sessions: Record<string, IndexedSession>; // session id → stats
+}
+
+export class SessionIndex {
+  private readonly dir: string;
+  private readonly cache = new Map<string, IndexFile>(); // project slug → index
+
+  constructor(dir: string) {
+    this.dir = dir.replace(/^~/, process.env['HOME'] || '');
+  }
+
+  /** Sessions in a project's transcript dir, newest first. Sessions without a prompt are left out. */
+  list(sessionDir: string): SessionInfo[] {
+    if (!existsSync(sessionDir)) return [];
+    const index = this.refresh(sessionDir);
+
+    const sessions: SessionInfo[] = [];
+    for (const [id, s] of Object.entries(index.sessions)) {
+      if (!s.name) continue;
+      sessions.push({
+        id,
+        name: s.name,
+        summary: s.summary,
+        updated_at: s.timestamp,
+        custom_title: s.custom_title,
+        message_count: s.message_count,
+        branch_count: s.branch_count,
+      });
+    }
+    sessions.sort((a, b) => (b.updated_at > a.updated_at ? 1 : b.updated_at < a.updated_at ? -1 : 0));
+    return sessions;
+  }
+
+  /** Re-stat the dir and recompute changed files; persists only if something changed. */
+  private refresh(sessionDir: string): IndexFile {
+    const slug = basename(sessionDir);
+    const index = this.cache.get(slug) ?? this.load(slug);
+    this.cache.set(slug, index);
+
+    let changed = false;
+    const live = new Set<string>();
+    for (const f of readdirSync(sessionDir)) {
+      if (!isSessionFile(f)) continue;
+      const id = basename(f, '.jsonl');
+      const path = join(sessionDir, f);
+      const stat = statSync(path, { throwIfNoEntry: false });
+      if (!stat) continue;
+      live.add(id);
+      const known = index.sessions[id];
+      if (known && known.mtimeMs === stat.mtimeMs && known.size === stat.size) continue;
+      try {
+        index.sessions[id] = { mtimeMs: stat.mtimeMs, size: stat.size, ...sessionStats(path) };
+        changed = true;
+      } catch (e) {
+        console.warn(`sessions: failed to index ${path}:`, e);
+      }
+    }
+    for (const id of Object.keys(index.sessions)) {
+      if (!live.has(id)) {
+        delete index.sessions[id];
+        changed = true;
+      }
+    }
+
+    if (changed) this.save(slug, index);
+    return index;
+  }
+
+  private indexPath(slug: string): string {
+    return join(this.dir, `${slug}.sessions.json`);
+  }
+
+  private load(slug: string): IndexFile {
+    const path = this.indexPath(slug);
+    try {
+      if (existsSync(path)) {
+        const parsed = JSON.parse(readFileSync(path, 'utf-8')) as IndexFile;
+        if (parsed.version === INDEX_VERSION) return parsed;
+      }
+    } catch {
+      console.warn(`sessions: discarding unreadable index ${path}`);
+    }
+    return { version: INDEX_VERSION, sessions: {} };
+  }
+
+  private save(slug: string, index: IndexFile): void {
+    try {
+      mkdirSync(this.dir, { recursive: true });
+      writeFileSync(this.indexPath(slug), JSON.stringify(index));
+    } catch (e) {
+      console.warn('sessions: failed to write index:', e);
+    }
+  }
+}
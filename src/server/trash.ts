@@ -0,0 +1,115 @@
+/**
+ * Session trash.
+ * Deleting a session moves its JSONL to `<dir>/<project slug>/<id>.jsonl`
+ * next to a small `<id>.json` record of where it came from, so it can be
+ * put back. The session's `<id>/` directory (subagent transcripts) moves
+ * with it. Nothing is ever removed for good here.
+ */
+
+import { cpSync, existsSync, mkdirSync, readdirSync, readFileSync, renameSync, rmSync, writeFileSync } from 'node:fs';
+import { basename, dirname, join } from 'node:path';
+import { isSessionId, pathToSlug } from '../shared/models.js';
+import type { TrashedSession } from '../shared/types.js';
+
+interface TrashRecord {
+  name: string;
+  original_path: string;
+  deleted_at: string;
+}
+
+export class Trash {
+  private readonly dir: string;
+
+  constructor(dir: string) {
+    this.dir = dir.replace(/^~/, process.env['HOME'] || '');
+  }
+
+  private projectDir(cwd: string): string {
+    return join(this.dir, pathToSlug(cwd));
+  }
+
+  /** Move a session file into the trash. */
+  put(cwd: string, sessionId: string, path: string, name: string): TrashedSession {
+    checkId(sessionId);
+    const dir = this.projectDir(cwd);
+    mkdirSync(dir, { recursive: true });
+    const record: TrashRecord = { name, original_path: path, deleted_at: new Date().toISOString() };
+    // Move first: a failed move leaves no orphan record behind
+    const trashed = join(dir, `${sessionId}.jsonl`);
+    move(path, trashed);
+    const sessionDir = join(dirname(path), sessionId);
+    if (existsSync(sessionDir)) {
+      try {
+        move(sessionDir, join(dir, sessionId));
+      } catch (e) {
+        move(trashed, path);
+        throw e;
+      }
+    }
+    writeFileSync(join(dir, `${sessionId}.json`), JSON.stringify(record));
+    console.info(`trashed session ${sessionId} (${path})`);
+    return { id: sessionId, name, deleted_at: record.deleted_at };
+  }
+
+  list(cwd: string): TrashedSession[] {
+    const dir = this.projectDir(cwd);
+    if (!existsSync(dir)) return [];
+
+    const result: TrashedSession[] = [];
+    for (const f of readdirSync(dir)) {
+      if (!f.endsWith('.jsonl')) continue;
+      const id = basename(f, '.jsonl');
+      const record = this.record(cwd, id);
+      result.push({ id, name: record?.name ?? id, deleted_at: record?.deleted_at ?? '' });
+    }
+    result.sort((a, b) => (b.deleted_at > a.deleted_at ? 1 : b.deleted_at < a.deleted_at ? -1 : 0));
+    return result;
+  }
+
+  /** Move a trashed session back where it was. Throws {status} errors for the routes. */
+  restore(cwd: string, sessionId: string): string {
+    checkId(sessionId);
+    const dir = this.projectDir(cwd);
+    const trashed = join(dir, `${sessionId}.jsonl`);
+    const record = this.record(cwd, sessionId);
+    if (!existsSync(trashed) || !record) {
+      throw { status: 404, message: `Not in trash: ${sessionId}` };
+    }
+    const trashedDir = join(dir, sessionId);
+    const originalDir = join(dirname(record.original_path), sessionId);
+    if (existsSync(record.original_path) || (existsSync(trashedDir) && existsSync(originalDir))) {
+      throw { status: 409, message: `A session already exists at ${record.original_path}` };
+    }
+    mkdirSync(dirname(record.original_path), { recursive: true });
+    move(trashed, record.original_path);
+    if (existsSync(trashedDir)) move(trashedDir, originalDir);
+    rmSync(join(dir, `${sessionId}.json`), { force: true });
+    console.info(`restored session ${sessionId} -> ${record.original_path}`);
+    return record.original_path;
+  }
+
+  private record(cwd: string, sessionId: string): TrashRecord | null {
+    try {
+      return JSON.parse(readFileSync(join(this.projectDir(cwd), `${sessionId}.json`), 'utf-8')) as TrashRecord;
+    } catch {
+      return null;
+    }
+  }
+}
+
+/** Rename, or copy and remove when the trash is on another filesystem. */
+function move(from: string, to: string): void {
+  try {
+    renameSync(from, to);
+  } catch (e) {
+    if ((e as NodeJS.ErrnoException).code !== 'EXDEV') throw e;
+    cpSync(from, to, { recursive: true, preserveTimestamps: true });
+    rmSync(from, { recursive: true, force: true });
+  }
+}
+
+function checkId(sessionId: string): void {
+  if (!isSessionId(sessionId)) {
+    throw { status: 400, message: `Invalid session id: ${sessionId}` };
+  }
+}
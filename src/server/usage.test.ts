@@ -0,0 +1,41 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { estimateCost } from './usage.js';
+
+/** [input, output] USD per million tokens. */
+function priceOf(model: string): [number, number] {
+  return [
+    estimateCost(model, { input_tokens: 1_000_000 }),
+    estimateCost(model, { output_tokens: 1_000_000 }),
+  ];
+}
+
+test('prices each model family at its list price', () => {
+  const expected: Record<string, [number, number]> = {
+    'claude-3-opus-20240229': [15, 75],
+    'claude-opus-4-20250514': [15, 75],
+    'claude-opus-4-0': [15, 75],
+    'claude-opus-4-1-20250805': [15, 75],
+    'claude-opus-4-5-20251101': [5, 25],
+    'claude-opus-4-6': [5, 25],
+    'claude-sonnet-4-5-20250929': [3, 15],
+    'claude-3-7-sonnet-20250219': [3, 15],
+    'claude-haiku-4-5-20251001': [1, 5],
+    'claude-3-5-haiku-20241022': [0.8, 4],
+    'mock': [0, 0],
+  };
+  for (const [model, price] of Object.entries(expected)) {
+    assert.deepEqual(priceOf(model), price, model);
+  }
+});
+
+test('prices cache writes and reads relative to input', () => {
+  const cost = estimateCost('claude-sonnet-4-5', {
+    cache_creation_input_tokens: 1_000_000,
+    cache_creation: { ephemeral_1h_input_tokens: 400_000, ephemeral_5m_input_tokens: 600_000 },
+    cache_read_input_tokens: 1_000_000,
+    server_tool_use: { web_search_requests: 2 },
+  });
+  // 600k at 1.25x + 400k at 2x + 1M at 0.1x, all at $3, plus two searches
+  assert.equal(+cost.toFixed(6), +(3 * (0.75 + 0.8 + 0.1) + 0.02).toFixed(6));
+});
@@ -0,0 +1,162 @@
+/**
+ * Token and cost usage from session transcripts.
+ * Claude Code writes one assistant entry per content block, each repeating
+ * the usage of the API response it came from, so entries are de-duplicated
+ * by message id before summing. Cost is the entry's own `costUSD` when the
+ * CLI wrote one, else an estimate from list prices.
+ */
+
+import { statSync } from 'node:fs';
+import { Conversation, isPrompt } from '../shared/models.js';
+import type {
+  AssistantEntry,
+  SessionUsage,
+  TurnUsage,
+  Usage,
+  UsageBreakdown,
+  UsageReport,
+  UsageTotals,
+  UserEntry,
+} from '../shared/types.js';
+import { isAssistantEntry, isUserEntry } from '../shared/types.js';
+
+/** USD per million tokens, first match on the model id wins. */
+const PRICES: { match: RegExp; input: number; output: number }[] = [
+  // Claude 3 Opus, Opus 4 and 4.1 (`claude-opus-4-20250514`, `claude-opus-4-1`); later Opus is cheaper
+  { match: /3-opus|opus-4(-[01])?(-\d{8})?$/, input: 15, output: 75 },
+  { match: /opus/, input: 5, output: 25 },
+  { match: /sonnet/, input: 3, output: 15 },
+  { match: /haiku-4-5/, input: 1, output: 5 },
+  { match: /haiku/, input: 0.8, output: 4 },
+];
+
+// Cache pricing relative to the input price
+const CACHE_WRITE_5M = 1.25;
+const CACHE_WRITE_1H = 2;
+const CACHE_READ = 0.1;
+const WEB_SEARCH_USD = 0.01;
+
+/** One session to aggregate: its id and JSONL path. */
+export interface UsageSource {
+  id: string;
+  path: string;
+}
+
+export function sessionUsage(sessionId: string, path: string): SessionUsage {
+  const usage: SessionUsage = { session_id: sessionId, ...emptyBreakdown(), turns: [] };
+  let turn: TurnUsage | null = null;
+
+  // Responses belong to the prompt written before them
+  forEachResponse(Conversation.load(path), null, (entry, cost, prompt) => {
+    if (prompt) {
+      turn = { uuid: prompt.uuid, timestamp: prompt.timestamp ?? '', ...emptyTotals() };
+      usage.turns.push(turn);
+    }
+    if (!entry) return;
+    addResponse(usage, entry, cost);
+    if (turn) addTotals(turn, entry.message.usage ?? {}, cost);
+  });
+  return usage;
+}
+
+/** Aggregate across sessions; `since` (ISO date or timestamp) drops older responses. */
+export function projectUsage(sources: UsageSource[], since: string | null): UsageReport {
+  const report: UsageReport = { since, sessions: 0, ...emptyBreakdown() };
+  const sinceMs = since ? Date.parse(since) : null;
+
+  for (const { path } of sources) {
+    // Untouched since the cutoff = nothing in range
+    const stat = statSync(path, { throwIfNoEntry: false });
+    if (!stat || (sinceMs !== null && stat.mtimeMs < sinceMs)) continue;
+    let counted = false;
+    forEachResponse(Conversation.fromJsonl(path), sinceMs, (entry, cost) => {
+      if (!entry) return;
+      addResponse(report, entry, cost);
+      counted = true;
+    });
+    if (counted) report.sessions++;
+  }
+  return report;
+}
+
+/** List-price cost of one response; 0 for a model without a known price. */
+export function estimateCost(model: string, usage: Usage): number {
+  const price = PRICES.find((p) => p.match.test(model));
+  if (!price) return 0;
+
+  const cacheWrite1h = usage.cache_creation?.ephemeral_1h_input_tokens ?? 0;
+  const cacheWrite5m = (usage.cache_creation_input_tokens ?? 0) - cacheWrite1h;
+  const inputTokens =
+    (usage.input_tokens ?? 0) +
+    cacheWrite5m * CACHE_WRITE_5M +
+    cacheWrite1h * CACHE_WRITE_1H +
+    (usage.cache_read_input_tokens ?? 0) * CACHE_READ;
+  return (
+    (inputTokens * price.input + (usage.output_tokens ?? 0) * price.output) / 1_000_000 +
+    (usage.server_tool_use?.web_search_requests ?? 0) * WEB_SEARCH_USD
+  );
+}
+
+// --- Helpers ---
+
+/**
+ * Walk the records in file order, calling `fn` once per API response
+ * (first entry of each message id) and with `prompt` set on each user prompt.
+ */
+function forEachResponse(
+  conv: Conversation,
+  sinceMs: number | null,
+  fn: (entry: AssistantEntry | null, cost: number, prompt?: UserEntry) => void,
+): void {
+  const seen = new Set<string>();
+  for (const r of conv.records) {
+    if (isUserEntry(r)) {
+      if (isPrompt(r)) fn(null, 0, r);
+      continue;
+    }
+    if (!isAssistantEntry(r) || !r.message.usage) continue;
+    const key = r.message.id ?? r.uuid;
+    if (seen.has(key)) continue;
+    seen.add(key);
+    if (sinceMs !== null && r.timestamp && Date.parse(r.timestamp) < sinceMs) continue;
+    const cost = typeof r['costUSD'] === 'number' ? r['costUSD'] : estimateCost(r.message.model ?? '', r.message.usage);
+    fn(r, cost);
+  }
+}
+
+function addResponse(into: UsageBreakdown, entry: AssistantEntry, cost: number): void {
+  const usage = entry.message.usage ?? {};
+  const model = entry.message.model || 'unknown';
+  const day = entry.timestamp?.slice(0, 10) || 'unknown';
+  addTotals(into.total, usage, cost);
+  addTotals((into.by_model[model] ??= emptyTotals()), usage, cost);
+  addTotals((into.by_day[day] ??= emptyTotals()), usage, cost);
+}
+
+function addTotals(t: UsageTotals, usage: Usage, cost: number): void {
+  t.messages++;
+  t.input_tokens += usage.input_tokens ?? 0;
+  t.output_tokens += usage.output_tokens ?? 0;
+  t.cache_creation_input_tokens += usage.cache_creation_input_tokens ?? 0;
+  t.cache_read_input_tokens += usage.cache_read_input_tokens ?? 0;
+  t.web_search_requests += usage.server_tool_use?.web_search_requests ?? 0;
+  t.web_fetch_requests += usage.server_tool_use?.web_fetch_requests ?? 0;
+  t.cost_usd += cost;
+}
+
+function emptyTotals(): UsageTotals {
+  return {
+    messages: 0,
+    input_tokens: 0,
+    output_tokens: 0,
+    cache_creation_input_tokens: 0,
+    cache_read_input_tokens: 0,
+    web_search_requests: 0,
+    web_fetch_requests: 0,
+    cost_usd: 0,
+  };
+}
+
+function emptyBreakdown(): UsageBreakdown {
+  return { total: emptyTotals(), by_model: {}, by_day: {} };
+}
@@ -0,0 +1,149 @@
+/**
+ * Session directory watcher.
+ * Sessions also change outside Duck Talk — `claude` in a terminal, another
+ * tab, another agent run — so each project with a subscriber gets an
+ * fs.watch on its transcript dir. Changes are coalesced, the session list
+ * is re-read and diffed against the last snapshot, and the differences go
+ * out as SessionEvents.
+ *
+ * A project is only watched while someone listens.
+ */
+
+import { existsSync, watch, type FSWatcher } from 'node:fs';
+import type { SessionEvent, SessionInfo } from '../shared/types.js';
+import type { AgentBackend } from './agent.js';
+
+/** Quiet period before a rescan; a streaming run appends many times a second. */
+const SETTLE_MS = 300;
+/** At most one rescan per interval while a file keeps changing. */
+const MAX_WAIT_MS = 1000;
+/** How often to look for a transcript dir that doesn't exist yet. */
+const MISSING_DIR_POLL_MS = 5000;
+
+export type SessionEventListener = (event: SessionEvent) => void;
+
+interface ProjectWatch {
+  dir: string;
+  listeners: Set<SessionEventListener>;
+  snapshot: Map<string, SessionInfo>;
+  fsWatcher: FSWatcher | null;
+  poll: ReturnType<typeof setInterval> | undefined;
+  settle: ReturnType<typeof setTimeout> | undefined;
+  firstChangeAt: number | null;
+}
+
+export class SessionWatcher {
+  private readonly agent: AgentBackend;
+  private readonly projects = new Map<string, ProjectWatch>(); // cwd → watch
+
+  constructor(agent: AgentBackend) {
+    this.agent = agent;
+  }
+
+  /** Follow a project's sessions. Returns an unsubscribe handle. */
+  subscribe(cwd: string, listener: SessionEventListener): () => void {
+    let project = this.projects.get(cwd);
+    if (!project) {
+      project = this.start(cwd);
+      this.projects.set(cwd, project);
+    }
+    project.listeners.add(listener);
+
+    return () => {
+      const p = this.projects.get(cwd);
+      if (!p || !p.listeners.delete(listener) || p.listeners.size > 0) return;
+      this.stop(p);
+      this.projects.delete(cwd);
+    };
+  }
+
+  private start(cwd: string): ProjectWatch {
+    const project: ProjectWatch = {
+      dir: this.agent.sessionDir!(cwd),
+      listeners: new Set(),
+      snapshot: new Map(this.agent.listSessions(cwd).map((s) => [s.id, s])),
+      fsWatcher: null,
+      poll: undefined,
+      settle: undefined,
+      firstChangeAt: null,
+    };
+
+    const attach = () => {
+      if (!existsSync(project.dir)) return false;
+      try {
+        project.fsWatcher = watch(project.dir, (_event, filename) => {
+          if (!filename || filename.endsWith('.jsonl')) this.changed(cwd, project);
+        });
+        project.fsWatcher.on('error', (e) => console.warn(`watch ${project.dir}:`, e.message));
+        console.info(`watching ${project.dir}`);
+      } catch (e) {
+        console.warn(`watch ${project.dir}:`, e instanceof Error ? e.message : e);
+      }
+      return true;
+    };
+
+    // A project with no sessions yet has no dir — wait for the agent to create it
+    if (!attach()) {
+      project.poll = setInterval(() => {
+        if (!attach()) return;
+        clearInterval(project.poll);
+        project.poll = undefined;
+        this.changed(cwd, project);
+      }, MISSING_DIR_POLL_MS);
+      project.poll.unref();
+    }
+    return project;
+  }
+
+  private stop(project: ProjectWatch): void {
+    project.fsWatcher?.close();
+    clearInterval(project.poll);
+    clearTimeout(project.settle);
+    console.info(`stopped watching ${project.dir}`);
+  }
+
+  /** Debounce, but never hold a rescan back longer than MAX_WAIT_MS. */
+  private changed(cwd: string, project: ProjectWatch): void {
+    const now = Date.now();
+    project.firstChangeAt ??= now;
+    clearTimeout(project.settle);
+    const delay = Math.min(SETTLE_MS, Math.max(0, project.firstChangeAt + MAX_WAIT_MS - now));
+    project.settle = setTimeout(() => {
+      project.firstChangeAt = null;
+      this.rescan(cwd, project);
+    }, delay);
+  }
+
+  private rescan(cwd: string, project: ProjectWatch): void {
+    let sessions: SessionInfo[];
+    try {
+      sessions = this.agent.listSessions(cwd);
+    } catch (e) {
+      console.warn(`watch ${project.dir}: rescan failed:`, e);
+      return;
+    }
+
+    const events: SessionEvent[] = [];
+    const next = new Map(sessions.map((s) => [s.id, s]));
+    for (const session of sessions) {
+      const before = project.snapshot.get(session.id);
+      if (!before) {
+        events.push({ type: 'session_created', session });
+      } else if (
+        before.updated_at !== session.updated_at ||
+        before.name !== session.name ||
+        before.summary !== session.summary
+      ) {
+        events.push({ type: 'session_updated', session });
+      }
+    }
+    for (const id of project.snapshot.keys()) {
+      if (!next.has(id)) events.push({ type: 'session_deleted', session_id: id });
+    }
+    project.snapshot = next;
+
+    for (const event of events) {
+      for (const listener of project.listeners) listener(event);
+    }
+  }
+}
@@ -4,8 +4,8 @@
  * plus _read_tail / _session_preview from server.py.
  */
 
-import { readFileSync, writeFileSync, statSync } from 'node:fs';
-import { dirname, join } from 'node:path';
+import { appendFileSync, existsSync, readdirSync, readFileSync, writeFileSync, statSync } from 'node:fs';
+import { basename, dirname, join } from 'node:path';
 import { randomUUID } from 'node:crypto';
 import { openSync, readSync, closeSync } from 'node:fs';
 import type {
@@ -14,8 +14,13 @@ import type {
   UserEntry,
   AssistantEntry,
   QueueOperation,
+  CustomTitleEntry,
+  SystemEntry,
   JsonDict,
   ContentBlock,
+  MessageResponse,
+  ProjectInfo,
+  SubagentInfo,
 } from './types.js';
 import {
   isTreeEntry,
@@ -30,6 +35,11 @@ export function pathToSlug(absPath: string): string {
   return absPath.replace(/[^a-zA-Z0-9-]/g, '-');
 }
 
+/** Session ids name `<id>.jsonl` in a project dir — a bare name, never a path. */
+export function isSessionId(id: string): boolean {
+  return /^[A-Za-z0-9_-]+$/.test(id);
+}
+
 export function slugToPath(slug: string): string {
   const trimmed = slug.replace(/^-+/, '');
   const result = '/' + trimmed.replace(/--/g, '/.').replace(/-/g, '/');
@@ -41,26 +51,47 @@ export function slugToPath(slug: string): string {
 interface TreeIndex {
   byUuid: Map<string, TreeEntry[]>;
   parentRefs: Set<string>;
+  depths: Map<string, number>; // memo for depthOf; cleared when entries are added
 }
 
 function buildTreeIndex(records: SessionEntry[]): TreeIndex {
-  const byUuid = new Map<string, TreeEntry[]>();
-  const parentRefs = new Set<string>();
+  const index: TreeIndex = { byUuid: new Map(), parentRefs: new Set(), depths: new Map() };
+  indexRecords(index, records);
+  return index;
+}
 
+function indexRecords(index: TreeIndex, records: SessionEntry[]): void {
   for (const r of records) {
     if (!isTreeEntry(r)) continue;
-    const list = byUuid.get(r.uuid);
+    const list = index.byUuid.get(r.uuid);
     if (list) {
       list.push(r);
     } else {
-      byUuid.set(r.uuid, [r]);
+      index.byUuid.set(r.uuid, [r]);
     }
-    if (r.parentUuid) {
-      parentRefs.add(r.parentUuid);
+    const parent = r.parentUuid ?? compactedFrom(r);
+    if (parent) {
+      index.parentRefs.add(parent);
     }
   }
+  index.depths.clear();
+}
+
+/**
+ * The entry a compact boundary continues from. Compaction starts a fresh
+ * root (`parentUuid: null`) whose `logicalParentUuid` points at the last
+ * entry before it; null for any other entry.
+ */
+export function compactedFrom(entry: TreeEntry): string | null {
+  if (entry.type !== 'system' || entry.parentUuid || !entry.logicalParentUuid) return null;
+  return entry.logicalParentUuid;
+}
 
-  return { byUuid, parentRefs };
+/** A user entry typed by a person — not a tool result, meta note or subagent prompt. */
+export function isPrompt(r: UserEntry): boolean {
+  if (r.isSidechain || r.isMeta) return false;
+  const content = r.message.content;
+  return typeof content === 'string' || content.some((b) => b['type'] === 'text');
 }
 
 // --- Preview ---
@@ -132,18 +163,23 @@ export class Conversation {
   }
 
   static fromJsonl(path: string): Conversation {
-    const content = readFileSync(path, 'utf-8');
-    const records: SessionEntry[] = [];
-    for (const line of content.split('\n')) {
-      const trimmed = line.trim();
-      if (!trimmed) continue;
-      try {
-        records.push(JSON.parse(trimmed) as SessionEntry);
-      } catch {
-        // skip malformed lines
-      }
-    }
-    return new Conversation(records);
+    return new Conversation(parseJsonl(readFileSync(path, 'utf-8')));
+  }
+
+  /**
+   * Like fromJsonl, but served from an in-memory cache keyed by path and
+   * mtime. A file that only grew is parsed from where the last read stopped.
+   * The result is shared — treat it as read-only.
+   */
+  static load(path: string): Conversation {
+    return conversationCache.load(path);
+  }
+
+  /** Add entries appended to the file since it was parsed. */
+  append(records: SessionEntry[]): void {
+    if (records.length === 0) return;
+    this.records.push(...records);
+    if (this._treeCache) indexRecords(this._treeCache, records);
   }
 
   private get tree(): TreeIndex {
@@ -162,7 +198,9 @@ export class Conversation {
   }
 
   get title(): string {
-    for (const r of this.records) {
+    // Latest rename wins
+    for (let i = this.records.length - 1; i >= 0; i--) {
+      const r = this.records[i]!;
       if (isCustomTitleEntry(r) && r.customTitle) {
         return r.customTitle;
       }
@@ -201,7 +239,7 @@ export class Conversation {
     let best: TreeEntry | null = null;
     let bestDepth = -1;
     for (const leaf of allLeaves) {
-      const depth = this.walkPath(leaf.uuid).length;
+      const depth = this.depthOf(leaf.uuid);
       if (depth > bestDepth) {
         bestDepth = depth;
         best = leaf;
@@ -210,7 +248,43 @@ export class Conversation {
     return best;
   }
 
-  walkPath(leafUuid: string): TreeEntry[] {
+  /**
+   * walkPath(uuid, { acrossCompactions: true }).length without building the
+   * path. Depths are memoized, so scoring every leaf costs one pass over the
+   * tree instead of one per leaf.
+   */
+  depthOf(uuid: string): number {
+    const t = this.tree;
+    const stack: string[] = [];
+    const onStack = new Set<string>();
+    let uid: string | null = uuid;
+    let base = 0;
+
+    while (uid) {
+      const known = t.depths.get(uid);
+      if (known !== undefined) {
+        base = known;
+        break;
+      }
+      const elist = t.byUuid.get(uid);
+      if (!elist || onStack.has(uid)) break; // missing parent or cycle: the walk stops here
+      stack.push(uid);
+      onStack.add(uid);
+      const entry = elist[elist.length - 1]!;
+      uid = entry.parentUuid ?? compactedFrom(entry);
+    }
+
+    for (let i = stack.length - 1; i >= 0; i--) {
+      t.depths.set(stack[i]!, ++base);
+    }
+    return t.depths.get(uuid) ?? 0;
+  }
+
+  /**
+   * Leaf → root. Stops at the last compact boundary unless `acrossCompactions`,
+   * which carries on into the history the boundary summarized.
+   */
+  walkPath(leafUuid: string, opts: { acrossCompactions?: boolean } = {}): TreeEntry[] {
     const t = this.tree;
     const path: TreeEntry[] = [];
     const seen = new Set<string>();
@@ -222,12 +296,110 @@ export class Conversation {
       if (!elist) break;
       const entry = elist[elist.length - 1]; // last occurrence
       path.push(entry);
-      uid = entry.parentUuid;
+      uid = entry.parentUuid ?? (opts.acrossCompactions ? compactedFrom(entry) : null);
     }
     return path;
   }
 }
 
+// --- Parsing + cache ---
+
+function parseJsonl(content: string): SessionEntry[] {
+  const records: SessionEntry[] = [];
+  for (const line of content.split('\n')) {
+    const trimmed = line.trim();
+    if (!trimmed) continue;
+    try {
+      records.push(JSON.parse(trimmed) as SessionEntry);
+    } catch {
+      // skip malformed lines
+    }
+  }
+  return records;
+}
+
+/** Most recently used conversations kept parsed. */
+const CONVERSATION_CACHE_SIZE = 16;
+
+interface CachedConversation {
+  conv: Conversation;
+  mtimeMs: number;
+  size: number;
+  offset: number; // bytes consumed — up to the last complete line
+}
+
+class ConversationCache {
+  private readonly entries = new Map<string, CachedConversation>(); // insertion order = LRU order
+
+  load(path: string): Conversation {
+    const stat = statSync(path);
+    let cached = this.entries.get(path);
+    this.entries.delete(path);
+
+    if (cached && (cached.mtimeMs !== stat.mtimeMs || cached.size !== stat.size)) {
+      // Appended to = bigger and the byte before our offset still ends a line
+      if (stat.size > cached.size && endsLineAt(path, cached.offset)) {
+        const { records, consumed } = readLines(path, cached.offset, stat.size);
+        cached.conv.append(records);
+        cached.offset += consumed;
+        cached.mtimeMs = stat.mtimeMs;
+        cached.size = stat.size;
+      } else {
+        cached = undefined;
+      }
+    }
+
+    if (!cached) {
+      const { records, consumed } = readLines(path, 0, stat.size);
+      cached = { conv: new Conversation(records), mtimeMs: stat.mtimeMs, size: stat.size, offset: consumed };
+    }
+
+    this.entries.set(path, cached);
+    if (this.entries.size > CONVERSATION_CACHE_SIZE) {
+      this.entries.delete(this.entries.keys().next().value!);
+    }
+    return cached.conv;
+  }
+}
+
+const conversationCache = new ConversationCache();
+
+/** Parse complete lines in [start, end). A trailing partial line (mid-write) is left for next time. */
+function readLines(path: string, start: number, end: number): { records: SessionEntry[]; consumed: number } {
+  const fd = openSync(path, 'r');
+  try {
+    const buf = Buffer.alloc(end - start);
+    const n = readSync(fd, buf, 0, buf.length, start);
+    const complete = buf.lastIndexOf(0x0a, n - 1) + 1;
+    const tail = buf.toString('utf-8', complete, n).trim();
+    // An unterminated last line only counts once it parses — otherwise it's still being written
+    const consumed = tail && !isJson(tail) ? complete : n;
+    return { records: parseJsonl(buf.toString('utf-8', 0, consumed)), consumed };
+  } finally {
+    closeSync(fd);
+  }
+}
+
+function isJson(text: string): boolean {
+  try {
+    JSON.parse(text);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function endsLineAt(path: string, offset: number): boolean {
+  if (offset === 0) return true;
+  const fd = openSync(path, 'r');
+  try {
+    const buf = Buffer.alloc(1);
+    return readSync(fd, buf, 0, 1, offset - 1) === 1 && buf[0] === 0x0a;
+  } finally {
+    closeSync(fd);
+  }
+}
+
 // --- Helpers ---
 
 function firstUserText(entries: UserEntry[]): string {
@@ -255,7 +427,7 @@ function firstAssistantText(entries: AssistantEntry[]): string {
 // --- Fork ---
 
 export function forkSession(originalPath: string, leafUuid: string): string {
-  const conv = Conversation.fromJsonl(originalPath);
+  const conv = Conversation.load(originalPath);
   const pathEntries = conv.walkPath(leafUuid);
   if (pathEntries.length === 0) {
     throw new Error(`UUID not found in tree: ${leafUuid}`);
@@ -283,6 +455,19 @@ export function forkSession(originalPath: string, leafUuid: string): string {
   return newSid;
 }
 
+// --- Rename ---
+
+export function appendCustomTitle(path: string, sessionId: string, title: string): CustomTitleEntry {
+  const entry: CustomTitleEntry = {
+    type: 'custom-title',
+    customTitle: title,
+    sessionId,
+    timestamp: new Date().toISOString(),
+  };
+  appendFileSync(path, JSON.stringify(entry) + '\n');
+  return entry;
+}
+
 // --- Tail read (fast preview without loading full JSONL) ---
 
 export function readTail(path: string, nbytes = 32768): JsonDict[] {
@@ -320,7 +505,8 @@ export function extractPreview(
   for (const entry of entries) {
     const entryType = entry['type'] as string | undefined;
 
-    if (!timestamp) {
+    // A rename isn't activity — it shouldn't move the session up the list
+    if (!timestamp && entryType !== 'custom-title') {
       const t = entry['timestamp'];
       if (typeof t === 'string' && t) timestamp = t;
     }
@@ -358,7 +544,17 @@ export function extractPreview(
     if (timestamp && name && summary) break;
   }
 
-  return { name, summary, timestamp };
+  return { name: customTitle(entries) || name, summary, timestamp };
+}
+
+/** The latest rename among newest-first entries, or ''. */
+function customTitle(entries: JsonDict[]): string {
+  for (const entry of entries) {
+    if (entry['type'] !== 'custom-title') continue;
+    const t = entry['customTitle'];
+    if (typeof t === 'string' && t.trim()) return t.trim();
+  }
+  return '';
 }
 
 const TAIL_START = 32768;
@@ -376,3 +572,293 @@ export function sessionPreview(path: string): { name: string; summary: string; t
   }
   return { name: '', summary: '', timestamp };
 }
+
+export interface SessionStats {
+  name: string;
+  summary: string;
+  timestamp: string;
+  custom_title: string | null;
+  message_count: number;
+  branch_count: number;
+}
+
+/** sessionPreview over the whole file, plus counts. Parses everything — meant to be cached. */
+export function sessionStats(path: string): SessionStats {
+  const conv = Conversation.fromJsonl(path);
+  const { name, summary, timestamp } = extractPreview([...conv.records].reverse() as unknown as JsonDict[]);
+  let customTitle: string | null = null;
+  for (let i = conv.records.length - 1; i >= 0 && customTitle === null; i--) {
+    const r = conv.records[i]!;
+    if (isCustomTitleEntry(r) && r.customTitle.trim()) customTitle = r.customTitle.trim();
+  }
+  return {
+    name,
+    summary,
+    timestamp,
+    custom_title: customTitle,
+    message_count: conv.messageCount,
+    branch_count: conv.leaves.length,
+  };
+}
+
+// --- Head read (first complete lines only) ---
+
+export function readHead(path: string, nbytes = 16384): JsonDict[] {
+  const fd = openSync(path, 'r');
+  try {
+    const buf = Buffer.alloc(nbytes);
+    const n = readSync(fd, buf, 0, nbytes, 0);
+    const lines = buf.toString('utf-8', 0, n).split('\n');
+    if (n === nbytes) lines.pop(); // last line is probably cut off
+
+    const result: JsonDict[] = [];
+    for (const line of lines) {
+      try {
+        result.push(JSON.parse(line) as JsonDict);
+      } catch {
+        // skip
+      }
+    }
+    return result;
+  } finally {
+    closeSync(fd);
+  }
+}
+
+// --- Projects ---
+
+/** A session transcript, as opposed to an older Claude Code's `agent-<id>.jsonl` subagent file. */
+export function isSessionFile(name: string): boolean {
+  return name.endsWith('.jsonl') && !name.startsWith('agent-');
+}
+
+/**
+ * The real cwd of a project dir, taken from the first entry that records one.
+ * The slug is lossy (`/a-b` and `/a/b` collide), so it's only the fallback.
+ */
+export function projectCwd(dir: string): string {
+  const files = existsSync(dir) ? readdirSync(dir).filter((f) => f.endsWith('.jsonl')) : [];
+  for (const f of files) {
+    for (const entry of readHead(join(dir, f))) {
+      const cwd = entry['cwd'];
+      if (typeof cwd === 'string' && cwd) return cwd;
+    }
+  }
+  return slugToPath(basename(dir));
+}
+
+export function listProjects(projectsDir: string): ProjectInfo[] {
+  if (!existsSync(projectsDir)) return [];
+
+  const projects: ProjectInfo[] = [];
+  for (const slug of readdirSync(projectsDir)) {
+    const dir = join(projectsDir, slug);
+    if (!statSync(dir).isDirectory()) continue;
+    const files = readdirSync(dir).filter(isSessionFile);
+    if (files.length === 0) continue;
+
+    let latest = 0;
+    for (const f of files) latest = Math.max(latest, statSync(join(dir, f)).mtimeMs);
+    const cwd = projectCwd(dir);
+    projects.push({
+      slug,
+      cwd,
+      name: basename(cwd),
+      session_count: files.length,
+      updated_at: new Date(latest).toISOString(),
+    });
+  }
+
+  projects.sort((a, b) => (b.updated_at > a.updated_at ? 1 : b.updated_at < a.updated_at ? -1 : 0));
+  return projects;
+}
+
+// --- Message extraction (shared by JSONL-backed agents) ---
+
+/** User/assistant messages along a path (leaf→root, as walkPath returns), root → leaf. */
+export function pathMessages(path: TreeEntry[]): MessageResponse[] {
+  const messages: MessageResponse[] = [];
+  let boundary: SystemEntry | null = null;
+
+  for (const entry of [...path].reverse()) {
+    if (entry.type === 'system' && compactedFrom(entry) !== null) {
+      boundary = entry;
+    } else if (isUserEntry(entry)) {
+      const message: MessageResponse = {
+        uuid: entry.uuid,
+        role: 'user',
+        content: entry.message.content as MessageResponse['content'],
+      };
+      // The summary Claude continued from is written as a user entry right after the boundary
+      if (entry.isCompactSummary) {
+        const meta = boundary?.compactMetadata ?? {};
+        message.compact = {
+          trigger: typeof meta['trigger'] === 'string' ? meta['trigger'] : null,
+          pre_tokens: typeof meta['preTokens'] === 'number' ? meta['preTokens'] : null,
+        };
+        boundary = null;
+      }
+      messages.push(message);
+    } else if (isAssistantEntry(entry)) {
+      // model_dump(exclude_none=True) equivalent: spread and filter nulls
+      const blocks = entry.message.content.map((block: ContentBlock) => {
+        const obj: Record<string, unknown> = {};
+        for (const [k, v] of Object.entries(block)) {
+          if (v !== null && v !== undefined) {
+            obj[k] = v;
+          }
+        }
+        return obj as ContentBlock;
+      });
+      messages.push({
+        uuid: entry.uuid,
+        role: 'assistant',
+        content: blocks,
+      });
+    }
+  }
+
+  return messages;
+}
+
+// --- Subagents ---
+
+/** Tools whose calls run a subagent with its own transcript. */
+export const SUBAGENT_TOOLS = new Set(['Task', 'Agent']);
+
+export interface Subagent {
+  toolUseId: string;
+  agentId: string | null;
+  description: string;
+  done: boolean;
+  conv: Conversation | null; // null until its transcript turns up
+}
+
+/**
+ * A session's subagent runs, keyed by the tool_use id that spawned each.
+ * Transcripts come from the session's own `isSidechain` entries or from
+ * `agent-<id>.jsonl` files: under `<session>/subagents/` in newer Claude
+ * Code versions, next to the session in older ones. They're tied to their
+ * call by the agent id in its result, or else by the prompt they start with.
+ */
+export function sessionSubagents(conv: Conversation, sessionPath: string): Map<string, Subagent> {
+  const subagents = new Map<string, Subagent>();
+  const byPrompt = new Map<string, Subagent>();
+  const sidechain: TreeEntry[] = [];
+
+  for (const r of conv.records) {
+    if (!isTreeEntry(r)) continue;
+    if (r.isSidechain) {
+      sidechain.push(r);
+    } else if (isAssistantEntry(r)) {
+      for (const b of r.message.content) {
+        if (b.type !== 'tool_use' || !SUBAGENT_TOOLS.has(b.name) || subagents.has(b.id)) continue;
+        const description = typeof b.input['description'] === 'string' ? b.input['description'] : '';
+        const sub: Subagent = { toolUseId: b.id, agentId: null, description, done: false, conv: null };
+        subagents.set(b.id, sub);
+        // Same form firstUserText gives the transcript's opening prompt
+        if (typeof b.input['prompt'] === 'string') byPrompt.set(b.input['prompt'].trim().slice(0, 200), sub);
+      }
+    } else if (isUserEntry(r) && Array.isArray(r.message.content)) {
+      for (const b of r.message.content) {
+        const sub = b['type'] === 'tool_result' ? subagents.get(String(b['tool_use_id'])) : undefined;
+        if (!sub) continue;
+        sub.done = true;
+        sub.agentId ??= agentIdOf(r.toolUseResult);
+      }
+    } else if (r.type === 'progress' && r.parentToolUseID) {
+      const sub = subagents.get(r.parentToolUseID);
+      if (sub) sub.agentId ??= agentIdOf(r.data);
+    }
+  }
+  if (subagents.size === 0) return subagents;
+
+  const byAgentId = new Map<string, Subagent>();
+  for (const sub of subagents.values()) if (sub.agentId) byAgentId.set(sub.agentId, sub);
+  const claim = (agentId: string | null, transcript: Conversation) => {
+    const sub = (agentId && byAgentId.get(agentId)) || byPrompt.get(firstUserText(transcript.userEntries));
+    if (!sub || sub.conv) return;
+    sub.conv = transcript;
+    sub.agentId ??= agentId;
+  };
+
+  // In-file sidechains: one transcript per agent id, or per root chain for versions without one
+  const groups = new Map<string, TreeEntry[]>();
+  const unlabelled: TreeEntry[] = [];
+  for (const e of sidechain) {
+    const agentId = e['agentId'];
+    if (typeof agentId !== 'string') {
+      unlabelled.push(e);
+      continue;
+    }
+    const group = groups.get(agentId);
+    if (group) group.push(e);
+    else groups.set(agentId, [e]);
+  }
+  for (const [agentId, entries] of groups) claim(agentId, new Conversation(entries));
+  for (const chain of sidechainChains(unlabelled)) claim(null, new Conversation(chain));
+
+  // Separate files
+  const dir = dirname(sessionPath);
+  const nested = join(dir, basename(sessionPath, '.jsonl'), 'subagents');
+  if (existsSync(nested)) {
+    for (const f of readdirSync(nested)) {
+      if (!f.startsWith('agent-') || !f.endsWith('.jsonl')) continue;
+      try {
+        claim(basename(f, '.jsonl').slice('agent-'.length), Conversation.load(join(nested, f)));
+      } catch {
+        // vanished or unreadable
+      }
+    }
+  }
+  for (const sub of subagents.values()) {
+    if (sub.conv || !sub.agentId) continue;
+    const legacy = join(dir, `agent-${sub.agentId}.jsonl`);
+    if (existsSync(legacy)) sub.conv = Conversation.load(legacy);
+  }
+  return subagents;
+}
+
+export function subagentInfo(sub: Subagent): SubagentInfo {
+  const leaf = sub.conv?.activeLeaf;
+  return {
+    tool_use_id: sub.toolUseId,
+    agent_id: sub.agentId,
+    description: sub.description,
+    message_count: leaf ? pathMessages(sub.conv!.walkPath(leaf.uuid)).length : 0,
+    done: sub.done,
+  };
+}
+
+/** List each message's subagents on it, for the tool_use blocks that spawned them. */
+export function attachSubagents(messages: MessageResponse[], subagents: Map<string, Subagent>): void {
+  if (subagents.size === 0) return;
+  for (const m of messages) {
+    if (typeof m.content === 'string') continue;
+    const infos: SubagentInfo[] = [];
+    for (const b of m.content) {
+      const sub = b.type === 'tool_use' ? subagents.get(b.id) : undefined;
+      if (sub) infos.push(subagentInfo(sub));
+    }
+    if (infos.length) m.subagents = infos;
+  }
+}
+
+function agentIdOf(value: unknown): string | null {
+  if (typeof value !== 'object' || value === null) return null;
+  const id = (value as JsonDict)['agentId'];
+  return typeof id === 'string' && id ? id : null;
+}
+
+/** Split sidechain entries into their separate runs: the deepest path under each root, root → leaf. */
+function sidechainChains(entries: TreeEntry[]): TreeEntry[][] {
+  if (entries.length === 0) return [];
+  const conv = new Conversation(entries);
+  const deepest = new Map<string, TreeEntry[]>(); // root uuid → path
+  for (const leaf of conv.leaves) {
+    const path = conv.walkPath(leaf.uuid);
+    const root = path[path.length - 1]!.uuid;
+    if ((deepest.get(root)?.length ?? 0) < path.length) deepest.set(root, path);
+  }
+  return [...deepest.values()].map((path) => path.reverse());
+}
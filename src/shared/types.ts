@@ -91,6 +91,7 @@ export interface UserEntry {
   permissionMode?: string;
   toolUseResult?: unknown;
   sourceToolAssistantUUID?: string;
+  isCompactSummary?: boolean;
   [key: string]: unknown; // extra="allow"
 }
 
@@ -216,6 +217,80 @@ export interface SessionInfo {
   name: string;
   summary: string;
   updated_at: string;
+  // Set by agents that keep a session index (full-file stats, not just the tail)
+  custom_title?: string | null;
+  message_count?: number;
+  branch_count?: number;
+}
+
+/** Pushed over GET /api/events when a project's transcripts change on disk. */
+export type SessionEvent =
+  | { type: 'session_created'; session: SessionInfo }
+  | { type: 'session_updated'; session: SessionInfo }
+  | { type: 'session_deleted'; session_id: string };
+
+/** A project dir under `<configDir>/projects/`, resolved to the repo it belongs to. */
+export interface ProjectInfo {
+  slug: string;
+  cwd: string;
+  name: string;
+  session_count: number;
+  updated_at: string;
+}
+
+export interface TrashedSession {
+  id: string;
+  name: string;
+  deleted_at: string;
+}
+
+export interface SearchMatch {
+  uuid: string;
+  role: 'user' | 'assistant';
+  snippet: string;
+}
+
+/** Sessions matching a search, each with the first few matching entries. */
+export interface SearchResult {
+  session_id: string;
+  name: string;
+  updated_at: string;
+  total: number;
+  matches: SearchMatch[];
+}
+
+/** Summed token usage; `messages` counts API responses, `cost_usd` is estimated. */
+export interface UsageTotals {
+  messages: number;
+  input_tokens: number;
+  output_tokens: number;
+  cache_creation_input_tokens: number;
+  cache_read_input_tokens: number;
+  web_search_requests: number;
+  web_fetch_requests: number;
+  cost_usd: number;
+}
+
+export interface UsageBreakdown {
+  total: UsageTotals;
+  by_model: Record<string, UsageTotals>;
+  by_day: Record<string, UsageTotals>; // YYYY-MM-DD, UTC
+}
+
+/** Usage of one prompt: the user message and every response until the next prompt. */
+export interface TurnUsage extends UsageTotals {
+  uuid: string; // the prompt's user entry
+  timestamp: string;
+}
+
+export interface SessionUsage extends UsageBreakdown {
+  session_id: string;
+  turns: TurnUsage[];
+}
+
+export interface UsageReport extends UsageBreakdown {
+  since: string | null;
+  sessions: number; // sessions with usage in range
 }
 
 export interface LeafInfo {
@@ -233,10 +308,96 @@ export interface PathEntry {
   preview: string;
 }
 
+/** Per-run ceilings; unset = unlimited. The server's own limits cap whatever a request asks for. */
+export interface RunLimits {
+  max_cost_usd?: number;
+  max_turns?: number;
+  timeout_s?: number;
+}
+
+/** Sent as `limit` on the final `done` event when a run was stopped by a ceiling. */
+export interface LimitBreach {
+  kind: 'cost' | 'turns' | 'timeout';
+  limit: number;
+  message: string; // short enough to be spoken
+}
+
+/** Tool-permission prompt sent over SSE while the SDK waits on `canUseTool`. */
+export interface PermissionRequestInfo {
+  id: string;
+  tool_name: string;
+  input: Record<string, unknown>;
+  tool_use_id: string;
+  decision_reason?: string;
+  blocked_path?: string;
+}
+
+/** `always` allows and applies the SDK's suggested rules for the rest of the session. */
+export type PermissionDecision = 'allow' | 'deny' | 'always';
+
+export interface RunInfo {
+  id: string;
+  project: string; // slug
+  session_id: string | null;
+  instruction: string;
+  started_at: string;
+  n_events: number;
+  n_subscribers: number;
+  awaiting_permission: boolean;
+}
+
+/** Set on the user message carrying a compaction summary — everything before it was compacted. */
+export interface CompactInfo {
+  trigger: string | null; // 'manual' | 'auto'
+  pre_tokens: number | null; // context size when it was compacted
+}
+
+/** A subagent run, listed on the assistant message whose tool_use spawned it. */
+export interface SubagentInfo {
+  tool_use_id: string;
+  agent_id: string | null;
+  description: string;
+  message_count: number; // 0 = no transcript found (yet)
+  done: boolean; // its result has come back to the parent
+}
+
+/** One file edit made by an Edit / MultiEdit / Write / NotebookEdit call. */
+export interface FileChange {
+  path: string;
+  tool: string;
+  tool_use_id: string;
+  diff: string; // unified, against the whole file
+  fragment?: boolean; // no backup to replay on: only the edit's snippets, numbered from 1
+}
+
+/** The files one turn (a prompt and the agent's work after it) changed. */
+export interface TurnFiles {
+  uuid: string; // the prompt's user entry
+  timestamp: string;
+  files: string[];
+  changes?: FileChange[]; // only when a single turn is asked for
+}
+
+/** A file a code rewind would put back (GET /api/sessions/:id/rewind previews them). */
+export interface RewindFile {
+  path: string; // absolute
+  action: 'restore' | 'delete'; // delete = it didn't exist yet at the leaf
+  diff: string; // current → restored
+}
+
+export interface RewindPlan {
+  leaf_uuid: string;
+  files: RewindFile[];
+  missing: string[]; // changed after the leaf, but the backup is gone
+  outside: string[]; // backed up, but outside the project — never touched
+}
+
 export interface MessageResponse {
   uuid: string;
   role: string;
   content: string | ContentBlock[];
+  compact?: CompactInfo;
+  subagents?: SubagentInfo[];
 }
 
 // --- Type guards ---